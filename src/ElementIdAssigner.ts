@@ -0,0 +1,100 @@
+import { visit } from "./parser/traverse";
+import { MarkdownNode } from "./parser/types";
+
+const FIELD_TYPES = ["input", "textarea", "dropdown", "checkbox", "radiogroup"];
+
+/**
+ * Assigns document-wide unique element ids to form fields, radio options
+ * and tabs for the code generators.
+ *
+ * Ids are slugs of the labels ("First Name" -> first-name, a second "Email"
+ * -> email-2), so they only change when an element with the same label is
+ * added or removed before them. Explicit #id attributes are kept and
+ * reserved, and radio options get "<group id>-<option slug>".
+ */
+export class ElementIdAssigner {
+  private ids = new Map<MarkdownNode, string>();
+  private optionIds = new Map<MarkdownNode, string[]>();
+  private usedIds = new Set<string>();
+
+  assign(nodes: MarkdownNode[]): void {
+    this.ids.clear();
+    this.optionIds.clear();
+    this.usedIds.clear();
+    this.reserveExplicitIds(nodes);
+    this.assignNodes(nodes);
+  }
+
+  /**
+   * Id of a field or tab, or the explicit id of any other element
+   */
+  idOf(node: MarkdownNode): string | undefined {
+    return this.ids.get(node) ?? node.id;
+  }
+
+  /**
+   * Ids of a radio group's options, in option order
+   */
+  optionIdsOf(node: MarkdownNode): string[] {
+    return this.optionIds.get(node) || [];
+  }
+
+  private reserveExplicitIds(nodes: MarkdownNode[]): void {
+    visit(nodes, {
+      enter: (node) => {
+        // A screen's id names the screen rather than an element
+        if (node.id && node.type !== "screen") {
+          this.usedIds.add(node.id);
+        }
+      },
+    });
+  }
+
+  private assignNodes(nodes: MarkdownNode[]): void {
+    visit(nodes, {
+      enter: (node) => {
+        if (node.type === "tab") {
+          this.ids.set(node, node.id ?? this.unique(this.slugify(node.label || "", "tab")));
+          return;
+        }
+        if (!FIELD_TYPES.includes(node.type)) {
+          return;
+        }
+        const id = node.id ?? this.unique(this.slugify(node.label || ""));
+        this.ids.set(node, id);
+
+        if (node.type === "radiogroup") {
+          this.optionIds.set(
+            node,
+            (node.options || []).map((option) => this.unique(`${id}-${this.slugify(option)}`))
+          );
+        }
+      },
+    });
+  }
+
+  private unique(baseId: string): string {
+    let id = baseId;
+    for (let n = 2; this.usedIds.has(id); n++) {
+      id = `${baseId}-${n}`;
+    }
+    this.usedIds.add(id);
+    return id;
+  }
+
+  /**
+   * A slug of the text, or the fallback for text without letters or digits;
+   * ids starting with a digit get the fallback as a prefix
+   */
+  private slugify(text: string, fallback = "field"): string {
+    const slug = text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "");
+
+    if (!slug) {
+      return fallback;
+    }
+    return /^[0-9]/.test(slug) ? `${fallback}-${slug}` : slug;
+  }
+}
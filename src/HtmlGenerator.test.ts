@@ -0,0 +1,171 @@
+import { HtmlGenerator } from './HtmlGenerator';
+import { MarkdownParser } from './parser/MarkdownParser';
+import { builders } from './parser/nodes';
+
+describe('HtmlGenerator', () => {
+  const render = (source: string, generator = new HtmlGenerator()) =>
+    generator.generate(new MarkdownParser().parse(source).nodes);
+
+  describe('element ids', () => {
+    test('associates labels with unique label-derived ids', () => {
+      const html = render(`[-- A
+Email ___
+--]
+[-- B
+Email ___
+Size __() [S, M]
+--]`);
+      expect(html).toContain('<label class="proto-label" for="email">Email</label>');
+      expect(html).toContain('<input type="text" class="proto-input" id="email" placeholder="" disabled />');
+      expect(html).toContain('<label class="proto-label" for="email-2">Email</label>');
+      expect(html).toContain('<input type="text" class="proto-input" id="email-2" placeholder="" disabled />');
+      expect(html).toContain('<div class="proto-radiogroup" id="size">');
+      expect(html).toContain('<label class="proto-radio-label" for="size-s">S</label>');
+    });
+  });
+
+  describe('custom node renderers', () => {
+    test('renders custom nodes by kind', () => {
+      const generator = new HtmlGenerator({
+        renderers: {
+          'status-pill': (node, { attributes, escape }) =>
+            `<span class="pill"${attributes}>${escape(node.content || '')}</span>`,
+        },
+      });
+      const html = generator.generate([builders.custom('status-pill', { content: '<Active>', id: 'state' })]);
+      expect(html).toContain('<span class="pill" id="state">&lt;Active&gt;</span>');
+    });
+  });
+
+  describe('attributes', () => {
+    test('drops event handler attributes', () => {
+      const html = render('Hello {onclick="alert(1)" style="color:red"}');
+      expect(html).not.toContain('onclick');
+      expect(html).toContain('<p class="proto-text" style="color:red">');
+    });
+
+    test('does not repeat attributes the element already renders', () => {
+      const html = render('[Save] {disabled=true type=reset}');
+      expect(html).toContain('<button class="proto-button proto-button-outline" type="reset" disabled>');
+    });
+
+    test('adds a class attribute to the element classes', () => {
+      expect(render('Hello {class=lead}')).toContain('<p class="proto-text lead">');
+    });
+  });
+
+  describe('tabs', () => {
+    const html = render('[tabs\n[tab Profile\nName ___\n]\n[tab Security {#secure}\nPassword __*\n]\n]');
+
+    test('renders a tab list whose tabs control the panels', () => {
+      expect(html).toContain('<div class="proto-tabs-list" role="tablist">');
+      expect(html).toMatch(
+        /<button type="button" class="proto-tabs-trigger proto-tabs-trigger-active" role="tab" aria-selected="true" aria-controls="profile" onclick="[^"]*">Profile<\/button>/
+      );
+      expect(html).toMatch(
+        /<button type="button" class="proto-tabs-trigger" role="tab" aria-selected="false" aria-controls="secure" onclick="[^"]*">Security<\/button>/
+      );
+      expect(html).toContain("panel.hidden = panel.id !== id;");
+    });
+
+    test('hides every panel but the first', () => {
+      expect(html).toContain('<div class="proto-tab" id="profile" role="tabpanel">');
+      expect(html).toContain('<div class="proto-tab" id="secure" role="tabpanel" hidden>');
+    });
+  });
+
+  describe('lists', () => {
+    const html = render('- Apples {#apples .fruit}\n  - Green\n  - Red\n- Pears\n\n3. Third\n4. Fourth\n\n1. One');
+
+    test('renders nested bulleted lists with item attributes', () => {
+      expect(html).toContain(
+        '<ul class="proto-list"><li class="proto-list-item fruit" id="apples">Apples<ul class="proto-list">' +
+          '<li class="proto-list-item">Green</li><li class="proto-list-item">Red</li></ul></li>' +
+          '<li class="proto-list-item">Pears</li></ul>'
+      );
+    });
+
+    test('renders numbered lists with their start number', () => {
+      expect(html).toContain(
+        '<ol class="proto-list" start="3"><li class="proto-list-item">Third</li><li class="proto-list-item">Fourth</li></ol>'
+      );
+      expect(html).toContain('<ol class="proto-list"><li class="proto-list-item">One</li></ol>');
+    });
+  });
+
+  describe('inline content', () => {
+    test('renders links, inline code and strikethrough', () => {
+      expect(render('See [docs](https://x.dev) or run `npm <i>` and ~~skip~~ it')).toContain(
+        '<p class="proto-text">See <a class="proto-link" href="https://x.dev">docs</a> or run ' +
+          '<code class="proto-code">npm &lt;i&gt;</code> and <s>skip</s> it</p>'
+      );
+    });
+
+    test('escapes link targets', () => {
+      expect(render('[the "docs"](https://x.dev/?a=1&b="2")')).toContain(
+        '<a class="proto-link" href="https://x.dev/?a=1&amp;b=&quot;2&quot;">the &quot;docs&quot;</a>'
+      );
+    });
+  });
+
+  describe('validation attributes', () => {
+    test('renders input types and validation rules as HTML5 attributes', () => {
+      const html = render('Email ___ {email required}\nAge ___ {number min=18 max=120}\nZip ___ {pattern="[0-9]{5}"}\nBio |___| {minlength=10 maxlength=500}');
+      expect(html).toContain('<input type="email" class="proto-input" id="email" placeholder="" required disabled />');
+      expect(html).toContain('<input type="number" class="proto-input" id="age" placeholder="" min="18" max="120" disabled />');
+      expect(html).toContain(
+        '<input type="text" class="proto-input" id="zip" placeholder="" pattern="[0-9]{5}" disabled />'
+      );
+      expect(html).toContain('<textarea class="proto-textarea" id="bio" minlength="10" maxlength="500" disabled></textarea>');
+    });
+  });
+
+  describe('placeholders, values and help text', () => {
+    const html = render(`Email ___ {placeholder="you@example.com" value=jane@x.dev help="We never share it"}
+Plan __> [Free, Pro] {value=Pro}
+Terms __[x] {help="Required to sign up"}`);
+
+    test('renders placeholders, values and pre-checked checkboxes', () => {
+      expect(html).toContain(
+        '<input type="text" class="proto-input" id="email" placeholder="you@example.com" value="jane@x.dev" aria-describedby="email-help" disabled />'
+      );
+      expect(html).toContain('<option>Free</option><option selected>Pro</option>');
+      expect(html).toContain(
+        '<input type="checkbox" class="proto-checkbox-input" id="terms" checked aria-describedby="terms-help" disabled />'
+      );
+    });
+
+    test('renders help text under the field it describes', () => {
+      expect(html).toContain('<p class="proto-help-text" id="email-help">We never share it</p>');
+      expect(html).toContain('<p class="proto-help-text" id="terms-help">Required to sign up</p>');
+    });
+  });
+
+  describe('workflow headers', () => {
+    const html = render(`[workflow name="User signup" start=done
+[screen start
+Hi
+]
+[screen done
+Bye
+]
+]
+[workflow name="user signup"
+[screen a
+X
+]
+]`);
+
+    test('shows the workflow name in a header', () => {
+      expect(html).toContain(`<div class="proto-workflow" data-workflow-name="User signup">
+        <div class="proto-workflow-header">
+          <span class="proto-workflow-name">User signup</span>
+        </div>`);
+    });
+
+    test('marks the start= screen as initial', () => {
+      expect(html).toContain('<div class="proto-screen" data-screen-id="start">');
+      expect(html).toContain('<div class="proto-screen proto-screen-active" data-screen-id="done">');
+    });
+  });
+});
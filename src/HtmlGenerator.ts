@@ -1,14 +1,71 @@
 import { MarkdownNode } from "./parser/types";
+import { ElementIdAssigner } from "./ElementIdAssigner";
+
+export interface HtmlGeneratorOptions {
+  renderers?: Record<string, HtmlRenderer>; // HTML for custom plugin nodes, keyed by node kind
+}
+
+/**
+ * Generator helpers passed to a custom node renderer
+ */
+export interface HtmlRenderContext {
+  attributes: string; // id and key=value attributes of the node, each with a leading space
+  className: string; // the node's .class attributes
+  renderChildren(nodes: MarkdownNode[]): string; // nodes as HTML
+  renderInline(nodes: MarkdownNode[]): string; // inline nodes as HTML
+  escape(text: string): string; // text escaped for HTML
+}
+
+/**
+ * Renders a custom node as HTML
+ */
+export type HtmlRenderer = (node: MarkdownNode, context: HtmlRenderContext) => string;
+
+/**
+ * Attributes a field's validation rules render as
+ */
+const VALIDATION_ATTRIBUTES = ["required", "min", "max", "minlength", "maxlength", "pattern"];
+
+/**
+ * Click handler of a tab trigger: selects the trigger and shows the panel it
+ * controls, hiding the other panels of the same tabs
+ */
+const TAB_SWITCHER = [
+  "var tabs = this.closest('.proto-tabs'), id = this.getAttribute('aria-controls');",
+  "tabs.querySelectorAll(':scope > .proto-tabs-list > [role=tab]').forEach(function (tab) {",
+  "var selected = tab.getAttribute('aria-controls') === id;",
+  "tab.setAttribute('aria-selected', selected);",
+  "tab.classList.toggle('proto-tabs-trigger-active', selected);",
+  "});",
+  "tabs.querySelectorAll(':scope > [role=tabpanel]').forEach(function (panel) {",
+  "panel.hidden = panel.id !== id;",
+  "});",
+].join(" ");
 
 /**
  * Generates HTML from a Proto Markdown AST
  * Used for VS Code extension preview rendering
  */
 export class HtmlGenerator {
+  private options: Required<HtmlGeneratorOptions>;
+  private elementIds = new ElementIdAssigner();
+
+  constructor(options: HtmlGeneratorOptions = {}) {
+    this.options = {
+      renderers: {},
+      ...options,
+    };
+  }
+
   /**
    * Generate HTML from markdown AST
    */
   generate(nodes: MarkdownNode[]): string {
+    this.elementIds.assign(nodes);
+    return this.renderNodes(nodes);
+  }
+
+  private renderNodes(nodes: MarkdownNode[]): string {
     return nodes.map((node) => this.renderNode(node)).join("\n");
   }
 
@@ -42,19 +99,45 @@ export class HtmlGenerator {
         return this.renderGrid(node);
       case "div":
         return this.renderDiv(node);
+      case "tabs":
+        return this.renderTabs(node);
+      case "tab":
+        return this.renderTab(node);
       case "table":
         return this.renderTable(node);
+      case "list":
+        return this.renderList(node);
       case "image":
         return this.renderImage(node);
       case "workflow":
         return this.renderWorkflow(node);
       case "screen":
         return this.renderScreen(node);
+      case "custom":
+        return this.renderCustom(node);
       default:
         return `<div class="proto-unknown">${JSON.stringify(node)}</div>`;
     }
   }
 
+  /**
+   * Render a custom plugin node with the renderer registered for its kind
+   */
+  private renderCustom(node: MarkdownNode): string {
+    const renderer = this.options.renderers[node.kind || ""];
+    if (!renderer) {
+      return `<div class="proto-unknown">${this.escapeHtml(JSON.stringify(node))}</div>`;
+    }
+
+    return renderer(node, {
+      attributes: this.elementAttributes(node),
+      className: node.className || "",
+      renderChildren: (children) => this.renderNodes(children),
+      renderInline: (children) => this.renderInlineNodes(children),
+      escape: (text) => this.escapeHtml(text),
+    });
+  }
+
   private renderHeader(node: MarkdownNode): string {
     const level = node.level || 1;
     let content: string;
@@ -65,15 +148,19 @@ export class HtmlGenerator {
       content = this.escapeHtml(node.content || "");
     }
 
-    return `<h${level} class="proto-header">${content}</h${level}>`;
+    return `<h${level} ${this.classAttribute(node, "proto-header")}${this.elementAttributes(
+      node
+    )}>${content}</h${level}>`;
   }
 
   private renderText(node: MarkdownNode): string {
     if (node.children && node.children.length > 0) {
       const content = this.renderInlineNodes(node.children);
-      return `<p class="proto-text">${content}</p>`;
+      return `<p ${this.classAttribute(node, "proto-text")}${this.elementAttributes(node)}>${content}</p>`;
     }
-    return `<p class="proto-text">${this.escapeHtml(node.content || "")}</p>`;
+    return `<p ${this.classAttribute(node, "proto-text")}${this.elementAttributes(
+      node
+    )}>${this.escapeHtml(node.content || "")}</p>`;
   }
 
   private renderBold(node: MarkdownNode): string {
@@ -111,72 +198,205 @@ export class HtmlGenerator {
           return this.renderInlineNodes(node.children);
         }
         return this.escapeHtml(node.content || "");
+      case "strikethrough":
+        if (node.children && node.children.length > 0) {
+          return `<s>${this.renderInlineNodes(node.children)}</s>`;
+        }
+        return `<s>${this.escapeHtml(node.content || "")}</s>`;
+      case "code":
+        return `<code class="proto-code">${this.escapeHtml(node.content || "")}</code>`;
+      case "link": {
+        const content =
+          node.children && node.children.length > 0
+            ? this.renderInlineNodes(node.children)
+            : this.escapeHtml(node.content || "");
+        return `<a class="proto-link" href="${this.escapeHtml(node.href || "")}">${content}</a>`;
+      }
+      case "custom":
+        return this.renderCustom(node);
       default:
         return this.escapeHtml(node.content || "");
     }
   }
 
+  /**
+   * A field label, with the inline formatting and links of a checkbox label
+   */
+  private renderLabel(node: MarkdownNode): string {
+    if (node.labelChildren && node.labelChildren.length > 0) {
+      return this.renderInlineNodes(node.labelChildren);
+    }
+    return this.escapeHtml(node.label || "");
+  }
+
   private renderInput(node: MarkdownNode): string {
-    const placeholder = node.inputType === "password" ? "••••••••" : "";
+    const placeholder =
+      node.placeholder ?? (node.inputType === "password" ? "••••••••" : "");
+    const value =
+      node.defaultValue !== undefined
+        ? ` value="${this.escapeHtml(node.defaultValue)}"`
+        : "";
     return `
-      <div class="proto-field">
-        <label class="proto-label">${this.escapeHtml(node.label || "")}</label>
+      <div ${this.classAttribute(node, "proto-field")}>
+        <label class="proto-label"${this.forAttribute(node)}>${this.escapeHtml(node.label || "")}</label>
         <input type="${
           node.inputType || "text"
-        }" class="proto-input" placeholder="${placeholder}" disabled />
+        }" class="proto-input"${this.elementAttributes(node, [
+          "type",
+          "placeholder",
+          "value",
+          "disabled",
+          "aria-describedby",
+          ...VALIDATION_ATTRIBUTES,
+        ])} placeholder="${this.escapeHtml(placeholder)}"${value}${this.validationAttributes(node)}${this.describedByAttribute(node)} disabled />${this.renderHelpText(node)}
       </div>`;
   }
 
   private renderTextarea(node: MarkdownNode): string {
     return `
-      <div class="proto-field">
-        <label class="proto-label">${this.escapeHtml(node.label || "")}</label>
-        <textarea class="proto-textarea" disabled></textarea>
+      <div ${this.classAttribute(node, "proto-field")}>
+        <label class="proto-label"${this.forAttribute(node)}>${this.escapeHtml(node.label || "")}</label>
+        <textarea class="proto-textarea"${this.elementAttributes(node, [
+          "placeholder",
+          "disabled",
+          "aria-describedby",
+          ...VALIDATION_ATTRIBUTES,
+        ])}${
+          node.placeholder !== undefined
+            ? ` placeholder="${this.escapeHtml(node.placeholder)}"`
+            : ""
+        }${this.validationAttributes(node)}${this.describedByAttribute(node)} disabled>${this.escapeHtml(
+          node.defaultValue || ""
+        )}</textarea>${this.renderHelpText(node)}
       </div>`;
   }
 
   private renderCheckbox(node: MarkdownNode): string {
     return `
-      <div class="proto-checkbox">
-        <input type="checkbox" class="proto-checkbox-input" disabled />
-        <label class="proto-checkbox-label">${this.escapeHtml(
-          node.label || ""
+      <div ${this.classAttribute(node, "proto-checkbox")}>
+        <input type="checkbox" class="proto-checkbox-input"${this.elementAttributes(node, [
+          "type",
+          "checked",
+          "disabled",
+          "aria-describedby",
+          ...VALIDATION_ATTRIBUTES,
+        ])}${
+          node.checked ? " checked" : ""
+        }${this.validationAttributes(node)}${this.describedByAttribute(node)} disabled />
+        <label class="proto-checkbox-label"${this.forAttribute(node)}>${this.renderLabel(
+          node
         )}</label>
-      </div>`;
+      </div>${this.renderHelpText(node)}`;
   }
 
   private renderRadioGroup(node: MarkdownNode): string {
+    const optionIds = this.elementIds.optionIdsOf(node);
     const options = (node.options || [])
       .map(
-        (opt) => `
+        (opt, i) => `
         <div class="proto-radio-option">
-          <input type="radio" class="proto-radio-input" name="${this.escapeHtml(
+          <input type="radio" class="proto-radio-input" id="${optionIds[i]}" name="${this.escapeHtml(
             node.label || ""
-          )}" disabled />
-          <label class="proto-radio-label">${this.escapeHtml(opt)}</label>
+          )}"${opt === node.defaultValue ? " checked" : ""}${this.validationAttributes(
+            node
+          )} disabled />
+          <label class="proto-radio-label" for="${optionIds[i]}">${this.escapeHtml(opt)}</label>
         </div>`
       )
       .join("");
 
     return `
-      <div class="proto-radiogroup">
+      <div ${this.classAttribute(node, "proto-radiogroup")}${this.elementAttributes(node, [
+        "aria-describedby",
+      ])}${this.describedByAttribute(node)}>
         <label class="proto-label">${this.escapeHtml(node.label || "")}</label>
-        <div class="proto-radio-options">${options}</div>
+        <div class="proto-radio-options">${options}</div>${this.renderHelpText(node)}
       </div>`;
   }
 
   private renderDropdown(node: MarkdownNode): string {
+    // Without a preselected option the placeholder shows first
+    const placeholder =
+      node.defaultValue === undefined && node.placeholder !== undefined
+        ? `<option selected>${this.escapeHtml(node.placeholder)}</option>`
+        : "";
     const options = (node.options || ["Select an option"])
-      .map((opt) => `<option>${this.escapeHtml(opt)}</option>`)
+      .map(
+        (opt) =>
+          `<option${opt === node.defaultValue ? " selected" : ""}>${this.escapeHtml(opt)}</option>`
+      )
       .join("");
 
     return `
-      <div class="proto-field">
-        <label class="proto-label">${this.escapeHtml(node.label || "")}</label>
-        <select class="proto-select" disabled>${options}</select>
+      <div ${this.classAttribute(node, "proto-field")}>
+        <label class="proto-label"${this.forAttribute(node)}>${this.escapeHtml(node.label || "")}</label>
+        <select class="proto-select"${this.elementAttributes(node, [
+          "disabled",
+          "aria-describedby",
+          ...VALIDATION_ATTRIBUTES,
+        ])}${this.validationAttributes(node)}${this.describedByAttribute(node)} disabled>${placeholder}${options}</select>${this.renderHelpText(node)}
       </div>`;
   }
 
+  /**
+   * Description shown under a field, which the field refers to through
+   * aria-describedby
+   */
+  private renderHelpText(node: MarkdownNode): string {
+    if (!node.helpText) {
+      return "";
+    }
+    return `
+        <p class="proto-help-text" id="${this.escapeHtml(this.helpTextId(node))}">${this.escapeHtml(node.helpText)}</p>`;
+  }
+
+  private describedByAttribute(node: MarkdownNode): string {
+    return node.helpText ? ` aria-describedby="${this.escapeHtml(this.helpTextId(node))}"` : "";
+  }
+
+  private helpTextId(node: MarkdownNode): string {
+    return `${this.elementIds.idOf(node) || ""}-help`;
+  }
+
+  /**
+   * for attribute associating a field's label with its control
+   */
+  private forAttribute(node: MarkdownNode): string {
+    return ` for="${this.escapeHtml(this.elementIds.idOf(node) || "")}"`;
+  }
+
+  /**
+   * HTML5 validation attributes of a field
+   */
+  private validationAttributes(node: MarkdownNode): string {
+    const validation = node.validation;
+    if (!validation) {
+      return "";
+    }
+
+    const attributes: string[] = [];
+    if (validation.required) {
+      attributes.push("required");
+    }
+    if (validation.min !== undefined) {
+      attributes.push(`min="${this.escapeHtml(String(validation.min))}"`);
+    }
+    if (validation.max !== undefined) {
+      attributes.push(`max="${this.escapeHtml(String(validation.max))}"`);
+    }
+    if (validation.minLength !== undefined) {
+      attributes.push(`minlength="${validation.minLength}"`);
+    }
+    if (validation.maxLength !== undefined) {
+      attributes.push(`maxlength="${validation.maxLength}"`);
+    }
+    if (validation.pattern !== undefined) {
+      attributes.push(`pattern="${this.escapeHtml(validation.pattern)}"`);
+    }
+
+    return attributes.map((attribute) => ` ${attribute}`).join("");
+  }
+
   private renderButton(node: MarkdownNode): string {
     const btnClass =
       node.variant === "default"
@@ -189,7 +409,10 @@ export class HtmlGenerator {
         )}</span>`
       : "";
 
-    return `<button class="proto-button ${btnClass}" disabled>${this.escapeHtml(
+    return `<button ${this.classAttribute(
+      node,
+      `proto-button ${btnClass}`
+    )}${this.elementAttributes(node, ["disabled"])} disabled>${this.escapeHtml(
       node.content || ""
     )}${navIndicator}</button>`;
   }
@@ -207,31 +430,65 @@ export class HtmlGenerator {
       )}</div>`;
     }
 
-    const cardChildren = node.children ? this.generate(node.children) : "";
+    const cardChildren = node.children ? this.renderNodes(node.children) : "";
 
     return `
-      <div class="proto-card">
+      <div ${this.classAttribute(node, "proto-card")}${this.elementAttributes(node)}>
         ${cardTitle}
         <div class="proto-card-content">${cardChildren}</div>
       </div>`;
   }
 
   private renderContainer(node: MarkdownNode): string {
-    const children = node.children ? this.generate(node.children) : "";
-    return `<div class="proto-container">${children}</div>`;
+    const children = node.children ? this.renderNodes(node.children) : "";
+    return `<div ${this.classAttribute(node, "proto-container")}${this.elementAttributes(
+      node
+    )}>${children}</div>`;
   }
 
   private renderGrid(node: MarkdownNode): string {
-    const children = node.children ? this.generate(node.children) : "";
+    const children = node.children ? this.renderNodes(node.children) : "";
     const gridConfig = this.parseGridConfig(node.gridConfig || "");
-    return `<div class="proto-grid" style="${gridConfig}">${children}</div>`;
+    return `<div ${this.classAttribute(node, "proto-grid")}${this.elementAttributes(node, [
+      "style",
+    ])} style="${gridConfig}">${children}</div>`;
   }
 
   private renderDiv(node: MarkdownNode): string {
-    const children = node.children ? this.generate(node.children) : "";
-    return `<div class="proto-div ${this.escapeHtml(
-      node.className || ""
-    )}">${children}</div>`;
+    const children = node.children ? this.renderNodes(node.children) : "";
+    return `<div ${this.classAttribute(node, "proto-div")}${this.elementAttributes(
+      node
+    )}>${children}</div>`;
+  }
+
+  /**
+   * Tabs with a working tab list; the first tab is selected initially and
+   * the other panels are hidden
+   */
+  private renderTabs(node: MarkdownNode): string {
+    const tabs = node.children || [];
+    const triggers = tabs
+      .map((tab, i) => {
+        const className = i === 0 ? "proto-tabs-trigger proto-tabs-trigger-active" : "proto-tabs-trigger";
+        return `<button type="button" class="${className}" role="tab" aria-selected="${i === 0}" aria-controls="${this.escapeHtml(
+          this.elementIds.idOf(tab) || ""
+        )}" onclick="${TAB_SWITCHER}">${this.escapeHtml(tab.label || "")}</button>`;
+      })
+      .join("");
+    const panels = tabs.map((tab, i) => this.renderTab(tab, i === 0)).join("");
+
+    return `
+      <div ${this.classAttribute(node, "proto-tabs")}${this.elementAttributes(node)}>
+        <div class="proto-tabs-list" role="tablist">${triggers}</div>${panels}
+      </div>`;
+  }
+
+  private renderTab(node: MarkdownNode, selected = true): string {
+    const children = node.children ? this.renderNodes(node.children) : "";
+    return `
+        <div ${this.classAttribute(node, "proto-tab")}${this.elementAttributes(node, ["role", "hidden"])} role="tabpanel"${
+          selected ? "" : " hidden"
+        }>${children}</div>`;
   }
 
   private renderTable(node: MarkdownNode): string {
@@ -252,14 +509,41 @@ export class HtmlGenerator {
       .join("");
 
     return `
-      <table class="proto-table">
+      <table ${this.classAttribute(node, "proto-table")}${this.elementAttributes(node)}>
         <thead><tr>${headerCells}</tr></thead>
         <tbody>${bodyRows}</tbody>
       </table>`;
   }
 
+  /**
+   * A bulleted list as <ul>, a numbered one as <ol> counting from its start
+   */
+  private renderList(node: MarkdownNode): string {
+    const tag = node.ordered ? "ol" : "ul";
+    const start = node.ordered && node.start !== undefined ? ` start="${node.start}"` : "";
+    const items = (node.children || []).map((item) => this.renderListItem(item)).join("");
+
+    return `<${tag} ${this.classAttribute(node, "proto-list")}${this.elementAttributes(node, [
+      "start",
+    ])}${start}>${items}</${tag}>`;
+  }
+
+  /**
+   * An item's text, then its nested lists
+   */
+  private renderListItem(node: MarkdownNode): string {
+    const content = (node.children || [])
+      .map((child) => (child.type === "list" ? this.renderList(child) : this.renderInlineNode(child)))
+      .join("");
+
+    return `<li ${this.classAttribute(node, "proto-list-item")}${this.elementAttributes(node)}>${content}</li>`;
+  }
+
   private renderImage(node: MarkdownNode): string {
-    return `<img class="proto-image" src="${this.escapeHtml(
+    return `<img ${this.classAttribute(node, "proto-image")}${this.elementAttributes(node, [
+      "src",
+      "alt",
+    ])} src="${this.escapeHtml(
       node.src || ""
     )}" alt="${this.escapeHtml(node.alt || "")}" />`;
   }
@@ -267,16 +551,19 @@ export class HtmlGenerator {
   private renderWorkflow(node: MarkdownNode): string {
     const screens = (node.children || [])
       .map((screen, idx) => {
-        const isInitial = screen.id === node.initialScreen || idx === 0;
+        const isInitial = node.initialScreen
+          ? screen.id === node.initialScreen
+          : idx === 0;
         const screenContent = screen.children
-          ? this.generate(screen.children)
+          ? this.renderNodes(screen.children)
           : "";
         const screenId = screen.id || "";
 
         return `
-          <div class="proto-screen${
-            isInitial ? " proto-screen-active" : ""
-          }" data-screen-id="${this.escapeHtml(screenId)}">
+          <div ${this.classAttribute(
+            screen,
+            isInitial ? "proto-screen proto-screen-active" : "proto-screen"
+          )}${this.elementAttributes(screen, ["data-screen-id"])} data-screen-id="${this.escapeHtml(screenId)}">
             <div class="proto-screen-header">
               <span class="proto-screen-badge">${this.escapeHtml(
                 screenId
@@ -292,15 +579,30 @@ export class HtmlGenerator {
       })
       .join("");
 
-    return `<div class="proto-workflow">${screens}</div>`;
+    if (node.name) {
+      return `<div ${this.classAttribute(node, "proto-workflow")}${this.elementAttributes(node, [
+        "data-workflow-name",
+      ])} data-workflow-name="${this.escapeHtml(
+        node.name
+      )}">
+        <div class="proto-workflow-header">
+          <span class="proto-workflow-name">${this.escapeHtml(node.name)}</span>
+        </div>${screens}</div>`;
+    }
+
+    return `<div ${this.classAttribute(node, "proto-workflow")}${this.elementAttributes(
+      node
+    )}>${screens}</div>`;
   }
 
   private renderScreen(node: MarkdownNode): string {
-    const screenChildren = node.children ? this.generate(node.children) : "";
+    const screenChildren = node.children ? this.renderNodes(node.children) : "";
     const screenId = node.id || "";
 
     return `
-      <div class="proto-screen" data-screen-id="${this.escapeHtml(screenId)}">
+      <div ${this.classAttribute(node, "proto-screen")}${this.elementAttributes(node, [
+        "data-screen-id",
+      ])} data-screen-id="${this.escapeHtml(screenId)}">
         <div class="proto-screen-header">
           <span class="proto-screen-badge">${this.escapeHtml(screenId)}</span>
         </div>
@@ -308,6 +610,49 @@ export class HtmlGenerator {
       </div>`;
   }
 
+  /**
+   * class attribute combining an element's own classes with its .class attributes
+   */
+  private classAttribute(node: MarkdownNode, baseClass: string): string {
+    const classAttribute = node.attributes?.class;
+    const classes = [
+      baseClass,
+      node.className,
+      typeof classAttribute === "string" ? classAttribute : "",
+    ]
+      .filter(Boolean)
+      .join(" ");
+    return `class="${this.escapeHtml(classes)}"`;
+  }
+
+  /**
+   * The #id and key=value attributes of an element; a screen's id is its
+   * data-screen-id. Attributes the element already renders (its class and
+   * those named in `rendered`) and event handlers are left out.
+   */
+  private elementAttributes(node: MarkdownNode, rendered: string[] = []): string {
+    const attributes: string[] = [];
+    const id = this.elementIds.idOf(node);
+    const taken = ["class", ...rendered];
+    if (id && node.type !== "screen") {
+      attributes.push(`id="${this.escapeHtml(id)}"`);
+      taken.push("id");
+    }
+    for (const [key, value] of Object.entries(node.attributes || {})) {
+      const name = key.toLowerCase();
+      if (taken.includes(name) || name.startsWith("on")) {
+        continue;
+      }
+      if (value === true) {
+        attributes.push(key);
+      } else if (value !== false) {
+        attributes.push(`${key}="${this.escapeHtml(String(value))}"`);
+      }
+    }
+
+    return attributes.map((attribute) => ` ${attribute}`).join("");
+  }
+
   private parseGridConfig(config: string): string {
     const styles: string[] = [];
 
@@ -0,0 +1,493 @@
+import { ShadcnCodeGenerator } from './ShadcnCodeGenerator';
+import { MarkdownParser } from './parser/MarkdownParser';
+import { builders } from './parser/nodes';
+import { ParserPlugin } from './parser/types';
+import { FieldValidation, InputType } from './index';
+
+describe('ShadcnCodeGenerator', () => {
+  const generate = (source: string, generator = new ShadcnCodeGenerator()) =>
+    generator.generate(new MarkdownParser().parse(source).nodes);
+
+  describe('workflows', () => {
+    const workflows = `[workflow name=Signup
+[screen start
+[(Next) -> done]
+]
+[screen done
+Thanks
+]
+]
+[workflow
+[screen a
+Hi
+]
+]`;
+
+    test('generates each workflow as a component with top-level state', () => {
+      const code = generate(workflows);
+      expect(code).toContain("import { useState } from 'react';");
+      expect(code).toContain(`function SignupWorkflow() {
+  const [currentScreen, setCurrentScreen] = useState("start");
+
+  if (currentScreen === "start") {`);
+      expect(code).toContain(
+        `<Button key={0} variant="default" onClick={() => setCurrentScreen("done")}>Next</Button>`
+      );
+      expect(code).toContain(`function Workflow2() {
+  const [currentScreen, setCurrentScreen] = useState("a");`);
+      expect(code).toContain(`      <SignupWorkflow key={0} />
+      <Workflow2 key={1} />`);
+    });
+
+    test('escapes screen ids in the screen state', () => {
+      const code = generate("[workflow\n[screen it's\n[(Go) -> back\\slash]\n]\n[screen back\\slash\nHi\n]\n]");
+      expect(code).toContain(`useState("it's");`);
+      expect(code).toContain(`if (currentScreen === "it's") {`);
+      expect(code).toContain('onClick={() => setCurrentScreen("back\\\\slash")}');
+      expect(code).toContain('if (currentScreen === "back\\\\slash") {');
+    });
+
+    test('does not navigate from buttons outside workflows', () => {
+      const code = generate('[(Next) -> done]');
+      expect(code).toContain('<Button key={0} variant="default">Next</Button>');
+      expect(code).not.toContain('useState');
+    });
+  });
+
+  describe('options', () => {
+    test('uses the default component name, import paths and wrapper', () => {
+      const code = generate('[(Save)]');
+      expect(code).toContain('import { Button } from "@/components/ui/button";');
+      expect(code).toContain('export function GeneratedComponent() {');
+      expect(code).toContain('    <div className="space-y-2">');
+    });
+
+    test('applies the component name, import paths, export style, wrapper class and indent size', () => {
+      const generator = new ShadcnCodeGenerator({
+        componentName: 'SignupForm',
+        uiImportPath: '@acme/ui',
+        importPaths: { Input: '@acme/input' },
+        exportStyle: 'default',
+        rootClassName: 'grid gap-4',
+        indentSize: 4,
+      });
+      const code = generate('Email ___\n[(Save)]', generator);
+
+      expect(code).toContain(`import { Button } from "@acme/ui/button";
+import { Input } from "@acme/input";
+import { Label } from "@acme/ui/label";`);
+      expect(code).toContain(`export default function SignupForm() {
+    return (
+        <div className="grid gap-4">
+            <div key={0} className="space-y-2">
+                <Label htmlFor="email">Email</Label>`);
+    });
+  });
+
+  const profileForm = `[-- Profile
+Full name ___ {required}
+Age ___ {number min=18}
+Bio |___|
+Plan __> [Free, Pro]
+Contact __() [Email, Phone]
+Subscribe __[]
+[(Save)]
+--]`;
+
+  describe('TypeScript output', () => {
+    const typescript = new ShadcnCodeGenerator({ typescript: true });
+
+    test('declares the form data and props interfaces', () => {
+      const code = generate(profileForm, typescript);
+      expect(code).toContain(`export interface GeneratedComponentFormData {
+  fullName: string;
+  age: string;
+  bio: string;
+  plan: "free" | "pro";
+  contact: "email" | "phone";
+  subscribe: boolean;
+}`);
+      expect(code).toContain(`export interface GeneratedComponentProps {
+  onFieldChange?: <K extends keyof GeneratedComponentFormData>(name: K, value: GeneratedComponentFormData[K]) => void;
+}`);
+      expect(code).toContain('export function GeneratedComponent({ onFieldChange }: GeneratedComponentProps) {');
+    });
+
+    test('types the change handlers', () => {
+      const code = generate(profileForm, typescript);
+      expect(code).toContain("import type { ChangeEvent } from 'react';");
+      expect(code).toContain(
+        'onChange={(event: ChangeEvent<HTMLTextAreaElement>) => onFieldChange?.("bio", event.target.value)}'
+      );
+      expect(code).toContain(
+        'onValueChange={(value: string) => onFieldChange?.("plan", value as GeneratedComponentFormData["plan"])}'
+      );
+      expect(code).toContain(
+        'onCheckedChange={(checked: boolean | "indeterminate") => onFieldChange?.("subscribe", checked === true)}'
+      );
+    });
+
+    test('escapes option values in the choice types', () => {
+      const code = generate('Quote __> [Say "hi", a\\b]', typescript);
+      expect(code).toContain('quote: "say-\\"hi\\"" | "a\\\\b";');
+    });
+
+    test('types workflow screen state with the screen ids', () => {
+      const code = generate(
+        '[workflow name=Signup\n[screen start\n[(Next) -> done]\n]\n[screen done\nThanks\n]\n]',
+        typescript
+      );
+      expect(code).toContain(`type SignupWorkflowScreen = "start" | "done";
+
+function SignupWorkflow() {
+  const [currentScreen, setCurrentScreen] = useState<SignupWorkflowScreen>("start");`);
+    });
+  });
+
+  describe('controlled forms', () => {
+    const controlled = new ShadcnCodeGenerator({ formMode: 'controlled' });
+
+    test('keeps field values in state keyed by field name', () => {
+      const code = generate(profileForm, controlled);
+      expect(code).toContain(`  const [values, setValues] = useState({
+    fullName: "",
+    age: "",
+    bio: "",
+    plan: "",
+    contact: "",
+    subscribe: false,
+  });`);
+      expect(code).toContain(
+        'value={values.fullName} onChange={(event) => setFieldValue("fullName", event.target.value)}'
+      );
+      expect(code).toContain('<Select value={values.plan} onValueChange={(value) => setFieldValue("plan", value)}>');
+      expect(code).toContain(
+        'checked={values.subscribe} onCheckedChange={(checked) => setFieldValue("subscribe", checked === true)}'
+      );
+    });
+
+    test('escapes option values in select and radio items', () => {
+      const source = 'Quote __> [Say "hi"]\nTone __() [Say "hi"]';
+      const code = generate(source, controlled);
+      expect(code).toContain('<SelectItem key={0} value="say-&quot;hi&quot;">Say &quot;hi&quot;</SelectItem>');
+      expect(code).toContain('value="say-&quot;hi&quot;" />');
+
+      const hookFormCode = generate(source, new ShadcnCodeGenerator({ formMode: 'react-hook-form' }));
+      expect(hookFormCode).toContain('<SelectItem key={0} value="say-&quot;hi&quot;">');
+      expect(hookFormCode).toContain('<RadioGroupItem value="say-&quot;hi&quot;" />');
+    });
+
+    test('turns cards with fields into forms submitted through onSubmit', () => {
+      const code = generate(profileForm, controlled);
+      expect(code).toContain('export function GeneratedComponent({ onSubmit }) {');
+      expect(code).toContain(`  const handleSubmit = (event) => {
+    event.preventDefault();
+    onSubmit?.(values);
+  };`);
+      expect(code).toContain('<form onSubmit={handleSubmit} className="space-y-2">');
+      expect(code).toContain('<Button key={6} type="submit" variant="default">Save</Button>');
+    });
+  });
+
+  describe('react-hook-form mode', () => {
+    const hookForm = new ShadcnCodeGenerator({ formMode: 'react-hook-form' });
+
+    test('generates a zod schema from the fields and their validation', () => {
+      const code = generate(profileForm, hookForm);
+      expect(code).toContain(`import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";`);
+      expect(code).toContain(`const formSchema = z.object({
+  fullName: z.string().min(1, "Required"),
+  age: z.coerce.number().min(18).optional(),
+  bio: z.string(),
+  plan: z.enum(["free", "pro"]).optional(),
+  contact: z.enum(["email", "phone"]).optional(),
+  subscribe: z.boolean(),
+});`);
+    });
+
+    test('escapes date bounds in the schema', () => {
+      const code = generate('Start ___ {date min=2024-01-01 max=2024\\12}', hookForm);
+      expect(code).toContain(
+        'start: z.string().refine(value => !value || value >= "2024-01-01", "Must be 2024-01-01 or later")' +
+          '.refine(value => !value || value <= "2024\\\\12", "Must be 2024\\\\12 or earlier")'
+      );
+    });
+
+    test('escapes option values in enum schemas', () => {
+      const code = generate('Quote __> [Say "hi", a\\b]', hookForm);
+      expect(code).toContain('quote: z.enum(["say-\\"hi\\"", "a\\\\b"]).optional(),');
+    });
+
+    test('wires fields through useForm and FormField', () => {
+      const code = generate(profileForm, hookForm);
+      expect(code).toContain(`  const form = useForm({
+    resolver: zodResolver(formSchema),`);
+      expect(code).toContain('const handleSubmit = form.handleSubmit(values => onSubmit?.(values));');
+      expect(code).toContain('<Form {...form}>');
+      expect(code).toContain(`<FormField
+                key={0}
+                control={form.control}
+                name="fullName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Full name</FormLabel>
+                    <FormControl>
+                      <Input type="text" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />`);
+      expect(code).toContain('<Checkbox checked={field.value} onCheckedChange={field.onChange} />');
+    });
+  });
+
+  describe('element ids', () => {
+    const cards = `[-- A
+Email ___
+--]
+[-- B
+Email ___
+Size __() [S, M]
+Email ___ {#email}
+--]`;
+
+    test('derives unique ids from labels, keeping explicit ids', () => {
+      const code = generate(cards);
+      expect(code).toContain('<Label htmlFor="email-2">Email</Label>');
+      expect(code).toContain('<Input id="email-2" type="text" />');
+      expect(code).toContain('<Input id="email-3" type="text" />');
+      expect(code).toContain('<Input id="email" type="text" />');
+      expect(code).toContain('<RadioGroup id="size">');
+      expect(code).toContain('<RadioGroupItem id="size-m" value="m" />');
+      expect(code).toContain('<Label htmlFor="size-m">M</Label>');
+    });
+
+    test('keeps ids stable when unrelated content changes', () => {
+      const code = generate(`# Profile\nName ___\n[(Save)]\n${cards}`);
+      expect(code).toContain('<Input id="name" type="text" />');
+      expect(code).toContain('<Input id="email-2" type="text" />');
+      expect(code).toContain('<Input id="email-3" type="text" />');
+      expect(code).toContain('<RadioGroup id="size">');
+    });
+  });
+
+  describe('component mappings', () => {
+    const mapped = new ShadcnCodeGenerator({
+      components: {
+        button: {
+          render: (node, { indent, index, attributes, escape }) =>
+            `${indent}<DsButton key={${index}}${attributes}>${escape(node.content || '')}</DsButton>`,
+          imports: [{ names: ['DsButton'], module: '@acme/ds' }],
+        },
+        input: {
+          render: (node, { indent, index, renderDefault }) =>
+            `${indent}<FormRow key={${index}}>\n${renderDefault()}\n${indent}</FormRow>`,
+          imports: [{ names: ['FormRow'], module: '@acme/ds' }],
+        },
+      },
+    });
+
+    test('replaces a node type with the mapped component and its imports', () => {
+      const code = generate('[(Save)] {#save}', mapped);
+      expect(code).toContain('import { DsButton } from "@acme/ds";');
+      expect(code).not.toContain('@/components/ui/button');
+      expect(code).toContain('<DsButton key={0} id="save">Save</DsButton>');
+    });
+
+    test('wraps the built-in output one level deeper', () => {
+      const code = generate('Email ___', mapped);
+      expect(code).toContain(`      <FormRow key={0}>
+        <div key={0} className="space-y-2">
+          <Label htmlFor="email">Email</Label>
+          <Input id="email" type="text" />
+        </div>
+      </FormRow>`);
+    });
+  });
+
+  describe('custom node renderers', () => {
+    const status: ParserPlugin = {
+      name: 'status',
+      lines: [
+        {
+          pattern: /^@status\s+(\w+)$/,
+          parse: (match) => builders.custom('status-pill', { content: match[1] }),
+        },
+      ],
+    };
+    const nodes = new MarkdownParser({ plugins: [status] }).parse('@status Active {#state}').nodes;
+
+    test('renders custom nodes by kind and adds their imports', () => {
+      const code = new ShadcnCodeGenerator({
+        renderers: {
+          'status-pill': (node, { indent, attributes, escape, addImport }) => {
+            addImport('StatusPill', '@/components/status-pill');
+            return `${indent}<StatusPill${attributes}>${escape(node.content || '')}</StatusPill>`;
+          },
+        },
+      }).generate(nodes);
+      expect(code).toContain('import { StatusPill } from "@/components/status-pill";');
+      expect(code).toContain('<StatusPill id="state">Active</StatusPill>');
+    });
+
+    test('leaves a comment for custom nodes without a renderer', () => {
+      expect(new ShadcnCodeGenerator().generate(nodes)).toContain(
+        '{/* No renderer for custom node "status-pill" */}'
+      );
+    });
+  });
+
+  describe('attributes', () => {
+    test('drops event handlers and turns a style string into a style object', () => {
+      const code = generate('Hello {onclick="alert(1)" style="color: red; font-size: 12px"}');
+      expect(code).not.toContain('onclick');
+      expect(code).toContain('<p key={0} style={{ color: "red", fontSize: "12px" }}>Hello</p>');
+    });
+
+    test('spells class and for as React props', () => {
+      const code = generate('Hello {class=lead for=email}');
+      expect(code).toContain('<p key={0} className="lead" htmlFor="email">Hello</p>');
+    });
+
+    test('spells boolean attributes as React props', () => {
+      const code = generate('Hello {readonly=true autofocus=true}');
+      expect(code).toContain('<p key={0} readOnly autoFocus>Hello</p>');
+    });
+
+    test('does not repeat props the element already sets', () => {
+      const code = generate('[Save] {disabled=true variant=default}');
+      expect(code).toContain('<Button key={0} variant="outline" disabled>Save</Button>');
+    });
+  });
+
+  describe('tabs', () => {
+    test('renders tabs with values from the labels or ids', () => {
+      const code = generate('[tabs\n[tab Profile\nName ___\n]\n[tab Security {#secure}\nPassword __*\n]\n]');
+      expect(code).toContain('import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";');
+      expect(code).toContain(`      <Tabs key={0} defaultValue="profile">
+        <TabsList>
+          <TabsTrigger key={0} value="profile">Profile</TabsTrigger>
+          <TabsTrigger key={1} value="secure">Security</TabsTrigger>
+        </TabsList>
+        <TabsContent key={0} value="profile" className="space-y-2">`);
+      expect(code).toContain('<TabsContent key={1} value="secure" className="space-y-2">');
+    });
+  });
+
+  describe('lists', () => {
+    const code = generate('- Apples {#apples .fruit}\n  - Green\n  - Red\n- Pears\n\n3. Third\n4. Fourth\n\n1. One');
+
+    test('renders nested bulleted lists with item attributes', () => {
+      expect(code).toContain(`      <ul key={0} className="my-6 ml-6 list-disc space-y-2">
+        <li key={0} className="fruit" id="apples">
+          Apples
+          <ul key={0} className="mt-2 ml-6 list-disc space-y-2">
+            <li key={0}>Green</li>
+            <li key={1}>Red</li>
+          </ul>
+        </li>
+        <li key={1}>Pears</li>
+      </ul>`);
+    });
+
+    test('renders numbered lists with their start number', () => {
+      expect(code).toContain('<ol key={1} className="my-6 ml-6 list-decimal space-y-2" start={3}>');
+      expect(code).toContain('<ol key={2} className="my-6 ml-6 list-decimal space-y-2">');
+    });
+  });
+
+  describe('inline content', () => {
+    test('renders links, inline code and strikethrough', () => {
+      const code = generate('See [docs](https://x.dev) or run `npm <i>` and ~~skip~~ it');
+      expect(code).toContain(
+        '<p key={0}>See <a key={1} href="https://x.dev" className="font-medium text-primary underline underline-offset-4">docs</a>' +
+          ' or run <code key={3} className="relative rounded bg-muted px-[0.3rem] py-[0.2rem] font-mono text-sm">npm &lt;i&gt;</code>' +
+          ' and <s key={5}>skip</s> it</p>'
+      );
+    });
+
+    test('escapes link targets', () => {
+      const code = generate('[the "docs"](https://x.dev/?a=1&b="2")');
+      expect(code).toContain('<a key={0} href="https://x.dev/?a=1&amp;b=&quot;2&quot;"');
+      expect(code).toContain('>the &quot;docs&quot;</a>');
+    });
+  });
+
+  describe('validation attributes', () => {
+    test('renders input types and validation rules as props', () => {
+      const code = generate('Email ___ {email required}\nAge ___ {number min=18 max=120}\nZip ___ {pattern="[0-9]{5}"}\nBio |___| {minlength=10 maxlength=500}');
+      expect(code).toContain('<Input id="email" type="email" required />');
+      expect(code).toContain('<Input id="age" type="number" min={18} max={120} />');
+      expect(code).toContain('<Input id="zip" type="text" pattern="[0-9]{5}" />');
+      expect(code).toContain('<Textarea id="bio" minLength={10} maxLength={500} />');
+    });
+
+    test('renders fields built with the exported validation types', () => {
+      const inputType: InputType = 'url';
+      const validation: FieldValidation = { required: true, maxLength: 80 };
+      const code = new ShadcnCodeGenerator().generate([builders.input('Site', { inputType, validation })]);
+      expect(code).toContain('<Input id="site" type="url" required maxLength={80} />');
+    });
+  });
+
+  describe('placeholders, values and help text', () => {
+    const prefilled = `Email ___ {placeholder="you@example.com" value=jane@x.dev help="We never share it"}
+Plan __> [Free, Pro] {value=Pro}
+Terms __[x] {help="Required to sign up"}`;
+
+    test('renders placeholders, default values and pre-checked checkboxes', () => {
+      const code = generate(prefilled);
+      expect(code).toContain(
+        '<Input id="email" type="text" placeholder="you@example.com" aria-describedby="email-help" defaultValue="jane@x.dev" />'
+      );
+      expect(code).toContain('<Select defaultValue="pro">');
+      expect(code).toContain('<Checkbox id="terms" aria-describedby="terms-help" defaultChecked />');
+    });
+
+    test('starts controlled state from the default values', () => {
+      const code = generate(prefilled, new ShadcnCodeGenerator({ formMode: 'controlled' }));
+      expect(code).toContain(`useState({
+    email: "jane@x.dev",
+    plan: "pro",
+    terms: true,
+  });`);
+    });
+
+    test('renders help text under the field it describes', () => {
+      const code = generate(prefilled);
+      expect(code).toContain('<p id="email-help" className="text-sm text-muted-foreground">We never share it</p>');
+      expect(code).toContain(`          </Label>
+        </div>
+        <p id="terms-help" className="text-sm text-muted-foreground">Required to sign up</p>`);
+
+      const hookFormCode = generate(prefilled, new ShadcnCodeGenerator({ formMode: 'react-hook-form' }));
+      expect(hookFormCode).toContain('<FormDescription>We never share it</FormDescription>');
+    });
+  });
+
+  describe('workflow headers', () => {
+    test('names workflow components after name= and starts on start=', () => {
+      const code = generate(`[workflow name="User signup" start=done
+[screen start
+Hi
+]
+[screen done
+Bye
+]
+]
+[workflow name="user signup"
+[screen a
+X
+]
+]`);
+      expect(code).toContain(`function UserSignupWorkflow() {
+  const [currentScreen, setCurrentScreen] = useState("done");`);
+      expect(code).toContain('function UserSignupWorkflow2() {');
+      expect(code).toContain(`      <UserSignupWorkflow key={0} />
+      <UserSignupWorkflow2 key={1} />`);
+    });
+  });
+});
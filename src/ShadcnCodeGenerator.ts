@@ -1,12 +1,122 @@
-import { MarkdownNode } from "./parser/types";
+import { MarkdownNode, NodeType } from "./parser/types";
+import { ElementIdAssigner } from "./ElementIdAssigner";
+import { visit } from "./parser/traverse";
+
+export interface ShadcnGeneratorOptions {
+  componentName?: string; // name of the generated component (default "GeneratedComponent")
+  uiImportPath?: string; // base path of the Shadcn UI components (default "@/components/ui")
+  importPaths?: Record<string, string>; // module per component, overriding uiImportPath (e.g. { Button: "@acme/ui/button" })
+  exportStyle?: "named" | "default"; // export function X() or export default function X()
+  rootClassName?: string; // className of the root wrapper div (default "space-y-2")
+  indentSize?: number; // spaces per indentation level (default 2)
+  typescript?: boolean; // emit .tsx with typed props, form data and event handlers
+  formMode?: "uncontrolled" | "controlled" | "react-hook-form"; // how fields hold their values and cards with fields are submitted
+  renderers?: Record<string, ShadcnRenderer>; // JSX for custom plugin nodes, keyed by node kind
+  components?: Partial<Record<NodeType, ShadcnComponentMapping>>; // JSX and imports replacing the built-in output of a node type
+}
+
+/**
+ * Generator helpers passed to a custom node renderer
+ */
+export interface ShadcnRenderContext {
+  index: number; // position among the node's siblings, for the key prop
+  indent: string; // indentation of the node's first line ("" for inline nodes)
+  attributes: string; // id and key=value props of the node, each with a leading space
+  className: string; // the node's .class attributes
+  renderChildren(nodes: MarkdownNode[]): string; // nodes as JSX one level deeper than the node
+  renderInline(nodes: MarkdownNode[]): string; // inline nodes as JSX
+  escape(text: string): string; // text escaped for JSX
+  addImport(name: string, module: string): void; // import { name } from "module"
+}
+
+/**
+ * Renders a custom node as JSX, starting with context.indent
+ */
+export type ShadcnRenderer = (node: MarkdownNode, context: ShadcnRenderContext) => string;
+
+export interface ShadcnComponentContext extends ShadcnRenderContext {
+  renderDefault(): string; // the built-in JSX for the node, one level deeper so it can be wrapped
+}
+
+/**
+ * Output of a node type in place of the built-in Shadcn component
+ * ({ render: (node, { indent }) => `${indent}<DsButton>...`, imports: [{ names: ["DsButton"], module: "@acme/ds" }] })
+ */
+export interface ShadcnComponentMapping {
+  render: (node: MarkdownNode, context: ShadcnComponentContext) => string; // JSX starting with context.indent
+  imports?: { names: string[]; module: string }[]; // added whenever a node of the type is generated
+}
+
+/**
+ * Shadcn UI imports, in the order they are emitted, keyed by component
+ */
+const UI_IMPORTS: Record<string, { names: string[]; module: string }> = {
+  Button: { names: ["Button"], module: "button" },
+  Input: { names: ["Input"], module: "input" },
+  Textarea: { names: ["Textarea"], module: "textarea" },
+  Card: { names: ["Card", "CardHeader", "CardTitle", "CardContent"], module: "card" },
+  Checkbox: { names: ["Checkbox"], module: "checkbox" },
+  RadioGroup: { names: ["RadioGroup", "RadioGroupItem"], module: "radio-group" },
+  Select: { names: ["Select", "SelectContent", "SelectItem", "SelectTrigger", "SelectValue"], module: "select" },
+  Table: { names: ["Table", "TableHeader", "TableBody", "TableRow", "TableHead", "TableCell"], module: "table" },
+  Tabs: { names: ["Tabs", "TabsList", "TabsTrigger", "TabsContent"], module: "tabs" },
+  Label: { names: ["Label"], module: "label" },
+  Form: { names: ["Form", "FormControl", "FormDescription", "FormField", "FormItem", "FormLabel", "FormMessage"], module: "form" },
+};
+
+/**
+ * Props a field's validation rules render as
+ */
+const VALIDATION_PROPS = ["required", "min", "max", "minLength", "maxLength", "pattern"];
+
+/**
+ * React props of HTML attributes whose JSX name is spelled differently
+ */
+const JSX_PROP_NAMES: Record<string, string> = {
+  for: "htmlFor",
+  tabindex: "tabIndex",
+  readonly: "readOnly",
+  maxlength: "maxLength",
+  minlength: "minLength",
+  autocomplete: "autoComplete",
+  autofocus: "autoFocus",
+};
 
 /**
  * Generates React component code from a Proto Markdown AST using Shadcn UI components
  */
 export class ShadcnCodeGenerator {
+  private options: Required<ShadcnGeneratorOptions>;
   private indentLevel = 0;
+  // Code is built with 2-space levels and re-indented to options.indentSize
   private readonly indentSize = 2;
   private requiredImports = new Set<string>();
+  private workflowComponents: string[] = [];
+  private workflowComponentNames = new Set<string>();
+  private insideWorkflow = false;
+  private fieldNames = new Map<MarkdownNode, string>();
+  private elementIds = new ElementIdAssigner();
+  private insideForm = false;
+  private usesForm = false;
+  private reactTypeImports = new Set<string>();
+  // Names imported by custom renderers and component mappings, keyed by module
+  private customImports = new Map<string, Set<string>>();
+
+  constructor(options: ShadcnGeneratorOptions = {}) {
+    this.options = {
+      componentName: "GeneratedComponent",
+      uiImportPath: "@/components/ui",
+      importPaths: {},
+      exportStyle: "named",
+      rootClassName: "space-y-2",
+      indentSize: 2,
+      typescript: false,
+      formMode: "uncontrolled",
+      renderers: {},
+      components: {},
+      ...options,
+    };
+  }
 
   /**
    * Generate complete React component code from markdown AST
@@ -14,11 +124,18 @@ export class ShadcnCodeGenerator {
   generate(nodes: MarkdownNode[]): string {
     this.indentLevel = 0;
     this.requiredImports.clear();
+    this.workflowComponents = [];
+    this.workflowComponentNames.clear();
+    this.insideWorkflow = false;
+    this.fieldNames.clear();
+    this.insideForm = false;
+    this.reactTypeImports.clear();
+    this.customImports.clear();
+    this.collectFields(nodes);
+    this.elementIds.assign(nodes);
+    this.usesForm = (this.isControlled() || this.isHookForm()) && this.containsFormCard(nodes);
 
-    // Check if the component contains a workflow
-    const hasWorkflow = nodes.some(node => node.type === 'workflow');
-
-    // Generate component body
+    // Generate component body (workflows are collected as separate components)
     const componentBody = this.generateNodes(nodes);
 
     // Add base indentation (6 spaces = 3 levels for proper JSX nesting)
@@ -29,55 +146,706 @@ export class ShadcnCodeGenerator {
 
     // Collect imports
     const imports = this.generateImports();
-    const reactImport = hasWorkflow ? "import { useState } from 'react';\n" : "";
+    const hasWorkflow = this.workflowComponents.length > 0;
+    const reactTypeImports = [...this.reactTypeImports].sort();
+    const reactImport =
+      (hasWorkflow || this.isControlled() ? "import { useState } from 'react';\n" : "") +
+      (reactTypeImports.length > 0 ? `import type { ${reactTypeImports.join(", ")} } from 'react';\n` : "") +
+      this.generateHookFormImports();
+    const typeDeclarations = [this.generateFormSchema(), ...this.generateTypeDeclarations()]
+      .filter(Boolean)
+      .map(declaration => `\n${declaration}\n`)
+      .join("");
+    const workflowComponents = this.workflowComponents
+      .map(component => `\n${component}\n`)
+      .join("");
 
-    return `${reactImport}${imports}
+    const exportKeyword = this.options.exportStyle === "default" ? "export default" : "export";
 
-export function GeneratedComponent() {
-  return (
-    <div className="space-y-2">
+    return this.reindent(`${reactImport}${imports}
+${typeDeclarations}${workflowComponents}
+${exportKeyword} function ${this.options.componentName}(${this.componentParams()}) {
+${this.generateFormState()}  return (
+${this.wrapRoot(`    <div className="${this.options.rootClassName}">
 ${indentedBody}
-    </div>
+    </div>`)}
   );
 }
+`);
+  }
+
+  /**
+   * Convert the 2-space indentation the code is built with to options.indentSize
+   */
+  private reindent(code: string): string {
+    if (this.options.indentSize === this.indentSize) {
+      return code;
+    }
+
+    return code
+      .split("\n")
+      .map(line => {
+        const leading = line.length - line.trimStart().length;
+        const levels = Math.floor(leading / this.indentSize);
+        return " ".repeat(levels * this.options.indentSize) + line.slice(levels * this.indentSize);
+      })
+      .join("\n");
+  }
+
+  /**
+   * Generate the form data and props interfaces (TypeScript mode only)
+   */
+  private generateTypeDeclarations(): string[] {
+    if (this.isHookForm() && this.options.typescript) {
+      return this.generateHookFormTypeDeclarations();
+    }
+    if (!this.hasFieldProps()) {
+      return [];
+    }
+
+    const formData = this.formDataTypeName();
+    const fields = [...this.fieldNames]
+      .map(([node, name]) => `  ${name}: ${this.fieldType(node)};`)
+      .join("\n");
+    const setFieldValueType = `<K extends keyof ${formData}>(name: K, value: ${formData}[K]) => void`;
+    const onSubmit = this.isControlled()
+      ? `\n  onSubmit?: (values: ${formData}) => void;`
+      : "";
+
+    const declarations = [
+      `export interface ${formData} {
+${fields}
+}`,
+      `export interface ${this.options.componentName}Props {
+  onFieldChange?: ${setFieldValueType};${onSubmit}
+}`,
+    ];
+
+    // Form state shared with workflow components
+    if (this.isControlled() && this.workflowComponents.length > 0) {
+      const handleSubmit = this.usesForm
+        ? "\n  handleSubmit: (event: FormEvent<HTMLFormElement>) => void;"
+        : "";
+      declarations.push(`interface ${this.options.componentName}FormState {
+  values: ${formData};
+  setFieldValue: ${setFieldValueType};${handleSubmit}
+}`);
+    }
+
+    return declarations;
+  }
+
+  /**
+   * Generate the form data type, props and workflow form state of the
+   * react-hook-form mode; the form data type is inferred from the schema
+   */
+  private generateHookFormTypeDeclarations(): string[] {
+    const formData = this.formDataTypeName();
+    const declarations = [
+      `export type ${formData} = z.infer<typeof formSchema>;`,
+      `export interface ${this.options.componentName}Props {
+  onSubmit?: (values: ${formData}) => void;
+}`,
+    ];
+
+    // Form state shared with workflow components
+    if (this.workflowComponents.length > 0) {
+      const handleSubmit = this.usesForm
+        ? `\n  handleSubmit: ReturnType<UseFormReturn<${formData}>["handleSubmit"]>;`
+        : "";
+      declarations.push(`interface ${this.options.componentName}FormState {
+  form: UseFormReturn<${formData}>;${handleSubmit}
+}`);
+    }
+
+    return declarations;
+  }
+
+  /**
+   * Imports of the react-hook-form mode
+   */
+  private generateHookFormImports(): string {
+    if (!this.isHookForm()) {
+      return "";
+    }
+
+    const useFormImports = this.options.typescript && this.workflowComponents.length > 0
+      ? "useForm, type UseFormReturn"
+      : "useForm";
+
+    return `import { ${useFormImports} } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
 `;
   }
 
   /**
-   * Generate imports based on used components
+   * Generate the zod schema of the form fields (react-hook-form mode only)
    */
-  private generateImports(): string {
-    const imports: string[] = [];
+  private generateFormSchema(): string {
+    if (!this.isHookForm()) {
+      return "";
+    }
+
+    const fields = [...this.fieldNames]
+      .map(([node, name]) => `  ${name}: ${this.fieldSchema(node)},`)
+      .join("\n");
+
+    return `const formSchema = z.object({
+${fields}
+});`;
+  }
+
+  /**
+   * Zod schema of a field's value
+   */
+  private fieldSchema(node: MarkdownNode): string {
+    const required = node.validation?.required === true;
+
+    switch (node.type) {
+      case "checkbox":
+        return required ? `z.boolean().refine(value => value, "Required")` : "z.boolean()";
+      case "radiogroup":
+      case "dropdown": {
+        if (!node.options || node.options.length === 0) {
+          return this.stringSchema(node);
+        }
+        const schema = `z.enum([${node.options.map(opt => JSON.stringify(this.optionValue(opt))).join(", ")}])`;
+        return required ? schema : `${schema}.optional()`;
+      }
+      default:
+        return node.inputType === "number" ? this.numberSchema(node) : this.stringSchema(node);
+    }
+  }
 
-    if (this.requiredImports.has("Button")) {
-      imports.push('import { Button } from "@/components/ui/button";');
+  private numberSchema(node: MarkdownNode): string {
+    const validation = node.validation || {};
+    let schema = "z.coerce.number()";
+    if (typeof validation.min === "number") {
+      schema += `.min(${validation.min})`;
     }
-    if (this.requiredImports.has("Input")) {
-      imports.push('import { Input } from "@/components/ui/input";');
+    if (typeof validation.max === "number") {
+      schema += `.max(${validation.max})`;
     }
-    if (this.requiredImports.has("Textarea")) {
-      imports.push('import { Textarea } from "@/components/ui/textarea";');
+    return validation.required ? schema : `${schema}.optional()`;
+  }
+
+  private stringSchema(node: MarkdownNode): string {
+    const validation = node.validation || {};
+    let schema = "z.string()";
+    // Format rules reject an empty value, which optional fields allow
+    let allowsEmpty = true;
+
+    if (node.inputType === "email" || node.inputType === "url") {
+      schema += `.${node.inputType}()`;
+      allowsEmpty = false;
     }
-    if (this.requiredImports.has("Card")) {
-      imports.push('import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";');
+    if (validation.minLength !== undefined) {
+      schema += `.min(${validation.minLength})`;
+      allowsEmpty = validation.minLength === 0;
+    } else if (validation.required) {
+      schema += `.min(1, "Required")`;
     }
-    if (this.requiredImports.has("Checkbox")) {
-      imports.push('import { Checkbox } from "@/components/ui/checkbox";');
+    if (validation.maxLength !== undefined) {
+      schema += `.max(${validation.maxLength})`;
     }
-    if (this.requiredImports.has("RadioGroup")) {
-      imports.push('import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";');
+    if (validation.pattern !== undefined) {
+      // HTML patterns must match the whole value
+      schema += `.regex(new RegExp(${JSON.stringify(`^(?:${validation.pattern})$`)}))`;
+      allowsEmpty = false;
     }
-    if (this.requiredImports.has("Select")) {
-      imports.push('import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";');
+    // ISO dates compare correctly as strings
+    if (typeof validation.min === "string") {
+      schema += `.refine(value => !value || value >= ${JSON.stringify(validation.min)}, ${JSON.stringify(`Must be ${validation.min} or later`)})`;
     }
-    if (this.requiredImports.has("Table")) {
-      imports.push('import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table";');
+    if (typeof validation.max === "string") {
+      schema += `.refine(value => !value || value <= ${JSON.stringify(validation.max)}, ${JSON.stringify(`Must be ${validation.max} or earlier`)})`;
     }
-    if (this.requiredImports.has("Label")) {
-      imports.push('import { Label } from "@/components/ui/label";');
+
+    return validation.required || allowsEmpty ? schema : `${schema}.or(z.literal(""))`;
+  }
+
+  /**
+   * Wrap the root element in the react-hook-form <Form> provider, which the
+   * FormField components of the whole tree read the form from
+   */
+  private wrapRoot(root: string): string {
+    if (!this.isHookForm()) {
+      return root;
     }
 
-    return imports.join("\n");
+    const indentedRoot = root
+      .split("\n")
+      .map(line => line ? `  ${line}` : line)
+      .join("\n");
+
+    return `    <Form {...form}>
+${indentedRoot}
+    </Form>`;
+  }
+
+  /**
+   * Generate the values state, setFieldValue and handleSubmit of the
+   * generated component (controlled form mode), or the useForm call and
+   * handleSubmit (react-hook-form mode)
+   */
+  private generateFormState(): string {
+    if (this.isHookForm()) {
+      return this.generateHookFormState();
+    }
+    if (!this.isControlled()) {
+      return "";
+    }
+
+    const typescript = this.options.typescript;
+    const formData = this.formDataTypeName();
+    const initialValues = [...this.fieldNames]
+      .map(([node, name]) => `    ${name}: ${this.initialValue(node)},`)
+      .join("\n");
+
+    const setFieldValue = typescript
+      ? `  const setFieldValue = <K extends keyof ${formData}>(name: K, value: ${formData}[K]) => {
+    setValues(previous => ({ ...previous, [name]: value }));
+    onFieldChange?.(name, value);
+  };`
+      : `  const setFieldValue = (name, value) => {
+    setValues(previous => ({ ...previous, [name]: value }));
+  };`;
+
+    const handleSubmit = this.usesForm
+      ? `
+
+  const handleSubmit = (${typescript ? "event: FormEvent<HTMLFormElement>" : "event"}) => {
+    event.preventDefault();
+    onSubmit?.(values);
+  };`
+      : "";
+
+    return `  const [values, setValues] = useState${typescript ? `<${formData}>` : ""}({
+${initialValues}
+  });
+
+${setFieldValue}${handleSubmit}
+
+`;
+  }
+
+  /**
+   * Whether components take field props (TypeScript mode with form fields)
+   */
+  private hasFieldProps(): boolean {
+    return this.options.typescript && this.fieldNames.size > 0 && !this.isHookForm();
+  }
+
+  private generateHookFormState(): string {
+    const typescript = this.options.typescript;
+    const defaultValues = [...this.fieldNames]
+      .map(([node, name]) => [name, this.hookFormDefaultValue(node)])
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `      ${name}: ${value},`)
+      .join("\n");
+
+    const handleSubmit = this.usesForm
+      ? `
+
+  const handleSubmit = form.handleSubmit(values => onSubmit?.(values));`
+      : "";
+
+    return `  const form = useForm${typescript ? `<${this.formDataTypeName()}>` : ""}({
+    resolver: zodResolver(formSchema),
+    defaultValues: ${defaultValues ? `{\n${defaultValues}\n    }` : "{}"},
+  });${handleSubmit}
+
+`;
+  }
+
+  /**
+   * Whether fields are bound to component state (controlled form mode with form fields)
+   */
+  private isControlled(): boolean {
+    return this.options.formMode === "controlled" && this.fieldNames.size > 0;
+  }
+
+  /**
+   * Whether fields are react-hook-form FormFields (react-hook-form mode with form fields)
+   */
+  private isHookForm(): boolean {
+    return this.options.formMode === "react-hook-form" && this.fieldNames.size > 0;
+  }
+
+  private formDataTypeName(): string {
+    return `${this.options.componentName}FormData`;
+  }
+
+  /**
+   * Parameter list of the generated component
+   */
+  private componentParams(): string {
+    let props: string[] = [];
+    if (this.isHookForm()) {
+      props = ["onSubmit"];
+    } else if (this.isControlled()) {
+      props = this.options.typescript ? ["onFieldChange", "onSubmit"] : ["onSubmit"];
+    } else if (this.hasFieldProps()) {
+      props = ["onFieldChange"];
+    }
+    if (props.length === 0) {
+      return "";
+    }
+
+    const type = this.options.typescript ? `: ${this.options.componentName}Props` : "";
+    return `{ ${props.join(", ")} }${type}`;
+  }
+
+  /**
+   * Parameter list of workflow components: the form state in controlled
+   * and react-hook-form modes, otherwise the props of the generated component
+   */
+  private workflowComponentParams(): string {
+    if (!this.isControlled() && !this.isHookForm()) {
+      return this.componentParams();
+    }
+
+    const type = this.options.typescript ? `: ${this.options.componentName}FormState` : "";
+    return `{ ${this.workflowProps().join(", ")} }${type}`;
+  }
+
+  /**
+   * Props passed from the generated component to workflow components
+   */
+  private workflowPropsAttributes(): string {
+    const props = this.isControlled() || this.isHookForm()
+      ? this.workflowProps()
+      : (this.hasFieldProps() ? ["onFieldChange"] : []);
+
+    return props.map(prop => ` ${prop}={${prop}}`).join("");
+  }
+
+  private workflowProps(): string[] {
+    const state = this.isHookForm() ? ["form"] : ["values", "setFieldValue"];
+    return this.usesForm ? [...state, "handleSubmit"] : state;
+  }
+
+  /**
+   * Assign each form field a unique name derived from its label
+   * ("First Name" -> firstName, a second "Email" -> email2)
+   */
+  private collectFields(nodes: MarkdownNode[]): void {
+    visit(nodes, {
+      enter: (node) => {
+        if (!["input", "textarea", "checkbox", "radiogroup", "dropdown"].includes(node.type)) {
+          return;
+        }
+        const baseName = this.toFieldName(node.label || "");
+        const usedNames = new Set(this.fieldNames.values());
+        let name = baseName;
+        for (let n = 2; usedNames.has(name); n++) {
+          name = `${baseName}${n}`;
+        }
+        this.fieldNames.set(node, name);
+      },
+    });
+  }
+
+  private toFieldName(label: string): string {
+    const words = label.split(/[^A-Za-z0-9]+/).filter(Boolean);
+    const name = words
+      .map((word, i) => i === 0 ? word[0].toLowerCase() + word.slice(1) : word[0].toUpperCase() + word.slice(1))
+      .join("");
+
+    if (!name) {
+      return "field";
+    }
+    return /^[0-9]/.test(name) ? `field${name}` : name;
+  }
+
+  /**
+   * TypeScript type of a field's value
+   */
+  private fieldType(node: MarkdownNode): string {
+    switch (node.type) {
+      case "checkbox":
+        return "boolean";
+      case "radiogroup":
+      case "dropdown": {
+        if (!node.options || node.options.length === 0) {
+          return "string";
+        }
+        // Controlled choices start out unselected
+        const values = node.options.map(opt => JSON.stringify(this.optionValue(opt)));
+        return (this.isControlled() ? ['""', ...values] : values).join(" | ");
+      }
+      default:
+        return "string";
+    }
+  }
+
+  /**
+   * Initial state value of a field (controlled form mode)
+   */
+  private initialValue(node: MarkdownNode): string {
+    switch (node.type) {
+      case "checkbox":
+        return node.checked ? "true" : "false";
+      case "dropdown":
+      case "radiogroup":
+        return JSON.stringify(node.defaultValue !== undefined ? this.optionValue(node.defaultValue) : "");
+      default:
+        return JSON.stringify(node.defaultValue ?? "");
+    }
+  }
+
+  /**
+   * Default value of a field in useForm (react-hook-form mode); choices and
+   * numbers without a default start out undefined rather than ""
+   */
+  private hookFormDefaultValue(node: MarkdownNode): string | undefined {
+    const schema = this.fieldSchema(node);
+    if (schema.startsWith("z.enum")) {
+      return node.defaultValue !== undefined ? this.initialValue(node) : undefined;
+    }
+    if (schema.startsWith("z.coerce.number")) {
+      const value = Number(node.defaultValue);
+      return node.defaultValue && !Number.isNaN(value) ? String(value) : undefined;
+    }
+    return this.initialValue(node);
+  }
+
+  /**
+   * Value of a dropdown or radio option ("New York" -> "new-york")
+   */
+  private optionValue(option: string): string {
+    return option.toLowerCase().replace(/\s+/g, "-");
+  }
+
+  /**
+   * Value and change handler attributes of a field: bound to the values
+   * state in controlled form mode, reported through a typed onFieldChange
+   * in TypeScript mode, otherwise none
+   */
+  private fieldBinding(node: MarkdownNode): string {
+    const name = this.fieldNames.get(node);
+    const controlled = this.isControlled();
+    if (!name || !(controlled || this.hasFieldProps())) {
+      return "";
+    }
+
+    const typescript = this.options.typescript;
+    const setValue = controlled ? "setFieldValue" : "onFieldChange?.";
+
+    switch (node.type) {
+      case "input":
+      case "textarea": {
+        const element = node.type === "input" ? "HTMLInputElement" : "HTMLTextAreaElement";
+        if (typescript) {
+          this.reactTypeImports.add("ChangeEvent");
+        }
+        const value = controlled ? ` value={values.${name}}` : "";
+        const event = typescript ? `event: ChangeEvent<${element}>` : "event";
+        return `${value} onChange={(${event}) => ${setValue}("${name}", event.target.value)}`;
+      }
+      case "checkbox": {
+        const checked = controlled ? ` checked={values.${name}}` : "";
+        const param = typescript ? `checked: boolean | "indeterminate"` : "checked";
+        return `${checked} onCheckedChange={(${param}) => ${setValue}("${name}", checked === true)}`;
+      }
+      default: {
+        const selected = controlled ? ` value={values.${name}}` : "";
+        const param = typescript ? "value: string" : "value";
+        const value = typescript && this.fieldType(node) !== "string"
+          ? `value as ${this.formDataTypeName()}["${name}"]`
+          : "value";
+        return `${selected} onValueChange={(${param}) => ${setValue}("${name}", ${value})}`;
+      }
+    }
+  }
+
+  private placeholderAttribute(node: MarkdownNode): string {
+    return node.placeholder !== undefined
+      ? ` placeholder="${this.escapeAttribute(node.placeholder)}"`
+      : "";
+  }
+
+  /**
+   * Initial value of an uncontrolled field (controlled fields start from the values state)
+   */
+  private defaultValueAttribute(node: MarkdownNode): string {
+    if (this.isControlled()) {
+      return "";
+    }
+    if (node.type === "checkbox") {
+      return node.checked ? " defaultChecked" : "";
+    }
+    if (node.defaultValue === undefined) {
+      return "";
+    }
+    const value = node.type === "dropdown" || node.type === "radiogroup"
+      ? this.optionValue(node.defaultValue)
+      : node.defaultValue;
+    return ` defaultValue="${this.escapeAttribute(value)}"`;
+  }
+
+  /**
+   * Description under a field, one level inside the field wrapper; the
+   * field refers to it through aria-describedby
+   */
+  private generateHelpText(node: MarkdownNode): string {
+    return node.helpText
+      ? `\n${this.indent()}  <p id="${this.escapeAttribute(this.helpTextId(node))}" className="text-sm text-muted-foreground">${this.escapeJSX(node.helpText)}</p>`
+      : "";
+  }
+
+  private describedByAttribute(node: MarkdownNode): string {
+    return node.helpText ? ` aria-describedby="${this.escapeAttribute(this.helpTextId(node))}"` : "";
+  }
+
+  private helpTextId(node: MarkdownNode): string {
+    return `${this.elementIds.idOf(node) || ""}-help`;
+  }
+
+  /**
+   * className prop combining an element's own classes with its .class attributes
+   */
+  private classNameAttribute(node: MarkdownNode, baseClassName = ""): string {
+    const classAttribute = node.attributes?.class;
+    const className = [
+      baseClassName,
+      node.className,
+      typeof classAttribute === "string" ? classAttribute : "",
+    ].filter(Boolean).join(" ");
+    return className ? ` className="${this.escapeAttribute(className)}"` : "";
+  }
+
+  /**
+   * The #id and key=value props of an element, spelled as React props.
+   * Props the element already sets (those named in `rendered`, "id" where
+   * the control or Radix owns it) are left out, as are event handlers; a
+   * class attribute joins className and a style string becomes a style
+   * object. A screen's id names the screen.
+   */
+  private elementAttributes(node: MarkdownNode, rendered: string[] = []): string {
+    const attributes: string[] = [];
+    const taken = ["key", "className", ...rendered];
+    const id = this.elementIds.idOf(node);
+    if (!taken.includes("id") && id && node.type !== "screen") {
+      attributes.push(`id="${this.escapeAttribute(id)}"`);
+      taken.push("id");
+    }
+    for (const [key, value] of Object.entries(node.attributes || {})) {
+      const name = JSX_PROP_NAMES[key.toLowerCase()] ?? key;
+      if (key === "class" || /^on/i.test(key) || taken.includes(name)) {
+        continue;
+      }
+      taken.push(name);
+      if (name === "style") {
+        const style = typeof value === "string" ? this.styleObject(value) : "";
+        if (style) {
+          attributes.push(`style={${style}}`);
+        }
+      } else if (value === true) {
+        attributes.push(name);
+      } else if (typeof value === "string") {
+        attributes.push(`${name}="${this.escapeAttribute(value)}"`);
+      } else {
+        attributes.push(`${name}={${value}}`);
+      }
+    }
+
+    return attributes.map(attribute => ` ${attribute}`).join("");
+  }
+
+  /**
+   * A CSS declaration list ("color: red; font-size: 12px") as a React style
+   * object literal, empty if it has no declarations
+   */
+  private styleObject(css: string): string {
+    const properties = css
+      .split(";")
+      .map(declaration => declaration.match(/^\s*([\w-]+)\s*:\s*(.*\S)\s*$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(([, property, value]) => {
+        const name = property.startsWith("--")
+          ? JSON.stringify(property)
+          : property.toLowerCase().replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+        return `${name}: ${JSON.stringify(value)}`;
+      });
+
+    return properties.length > 0 ? `{ ${properties.join(", ")} }` : "";
+  }
+
+  /**
+   * HTML5 validation props of a field (required, min, max, minLength, maxLength, pattern)
+   */
+  private validationAttributes(node: MarkdownNode): string {
+    const validation = node.validation;
+    if (!validation) {
+      return "";
+    }
+
+    const attributes: string[] = [];
+    if (validation.required) {
+      attributes.push("required");
+    }
+    for (const key of ["min", "max"] as const) {
+      const value = validation[key];
+      if (typeof value === "number") {
+        attributes.push(`${key}={${value}}`);
+      } else if (value !== undefined) {
+        attributes.push(`${key}="${this.escapeAttribute(value)}"`);
+      }
+    }
+    if (validation.minLength !== undefined) {
+      attributes.push(`minLength={${validation.minLength}}`);
+    }
+    if (validation.maxLength !== undefined) {
+      attributes.push(`maxLength={${validation.maxLength}}`);
+    }
+    if (validation.pattern !== undefined) {
+      attributes.push(`pattern="${this.escapeAttribute(validation.pattern)}"`);
+    }
+
+    return attributes.map(attribute => ` ${attribute}`).join("");
+  }
+
+  /**
+   * Escape a JSX string attribute value (braces need no escaping inside quotes)
+   */
+  private escapeAttribute(value: string): string {
+    return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+  }
+
+  /**
+   * Whether any card in the tree contains a form field
+   */
+  private containsFormCard(nodes: MarkdownNode[]): boolean {
+    return nodes.some(node =>
+      (node.type === "card" && this.containsField(node)) ||
+      this.containsFormCard(node.children || [])
+    );
+  }
+
+  /**
+   * Whether a node is a form field or contains one
+   */
+  private containsField(node: MarkdownNode): boolean {
+    return this.fieldNames.has(node) ||
+      (node.children || []).some(child => this.containsField(child));
+  }
+
+  /**
+   * Generate imports based on used components
+   */
+  private generateImports(): string {
+    const uiImports = Object.entries(UI_IMPORTS)
+      .filter(([component]) => this.requiredImports.has(component))
+      .map(([component, { names, module }]) => {
+        const path = this.options.importPaths[component] ?? `${this.options.uiImportPath}/${module}`;
+        return `import { ${names.join(", ")} } from "${path}";`;
+      });
+    const customImports = [...this.customImports].map(
+      ([module, names]) => `import { ${[...names].join(", ")} } from "${module}";`
+    );
+    return [...uiImports, ...customImports].join("\n");
   }
 
   /**
@@ -88,9 +856,36 @@ ${indentedBody}
   }
 
   /**
-   * Generate code for a single node
+   * Generate code for a single node, through its component mapping if it has one
    */
   private generateNode(node: MarkdownNode, index: number): string {
+    const mapping = this.options.components[node.type];
+    if (!mapping) {
+      return this.generateBuiltInNode(node, index);
+    }
+
+    for (const { names, module } of mapping.imports || []) {
+      names.forEach(name => this.addCustomImport(name, module));
+    }
+    return mapping.render(node, {
+      ...this.renderContext(node, index, this.indent()),
+      renderDefault: () => {
+        this.indentLevel++;
+        const code = this.generateBuiltInNode(node, index);
+        this.indentLevel--;
+        return code;
+      },
+    });
+  }
+
+  /**
+   * Generate the built-in code for a single node
+   */
+  private generateBuiltInNode(node: MarkdownNode, index: number): string {
+    if (this.isHookForm() && this.fieldNames.has(node)) {
+      return this.generateFormField(node, index);
+    }
+
     switch (node.type) {
       case "header":
         return this.generateHeader(node, index);
@@ -112,10 +907,17 @@ ${indentedBody}
         return this.generateCard(node, index);
       case "table":
         return this.generateTable(node, index);
+      case "list":
+        return this.generateList(node, index);
       case "grid":
         return this.generateGrid(node, index);
       case "div":
         return this.generateDiv(node, index);
+      case "tabs":
+        return this.generateTabs(node, index);
+      case "tab":
+        // A tab outside tabs has no trigger, so its content is shown as a div
+        return this.generateDiv(node, index);
       case "text":
         return this.generateText(node, index);
       case "bold":
@@ -128,15 +930,73 @@ ${indentedBody}
         return this.generateWorkflow(node, index);
       case "screen":
         return this.generateScreen(node, index);
+      case "custom":
+        return this.generateCustom(node, index, this.indent());
       default:
         return "";
     }
   }
 
+  /**
+   * Generate a custom plugin node with the renderer registered for its kind
+   */
+  private generateCustom(node: MarkdownNode, index: number, indent: string): string {
+    const renderer = this.options.renderers[node.kind || ""];
+    if (!renderer) {
+      return `${indent}{/* No renderer for custom node "${node.kind}" */}`;
+    }
+
+    return renderer(node, this.renderContext(node, index, indent));
+  }
+
+  /**
+   * Generator helpers for a custom renderer or component mapping
+   */
+  private renderContext(node: MarkdownNode, index: number, indent: string): ShadcnRenderContext {
+    return {
+      index,
+      indent,
+      attributes: this.elementAttributes(node),
+      className: node.className || "",
+      renderChildren: (children) => {
+        this.indentLevel++;
+        const code = this.generateNodes(children);
+        this.indentLevel--;
+        return code;
+      },
+      renderInline: (children) =>
+        children.map((child, i) => this.generateInlineNode(child, i)).join(""),
+      escape: (text) => this.escapeJSX(text),
+      addImport: (name, module) => this.addCustomImport(name, module),
+    };
+  }
+
+  private addCustomImport(name: string, module: string): void {
+    const names = this.customImports.get(module) || new Set<string>();
+    this.customImports.set(module, names.add(name));
+  }
+
   private indent(): string {
     return " ".repeat(this.indentLevel * this.indentSize);
   }
 
+  /**
+   * Convert free text to a PascalCase identifier ending in the suffix
+   * ("customer onboarding" -> "CustomerOnboardingWorkflow")
+   */
+  private toComponentName(text: string, suffix: string): string {
+    const name = text
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map(word => word[0].toUpperCase() + word.slice(1))
+      .join("");
+
+    if (!name || /^[0-9]/.test(name)) {
+      return `${suffix}${name}`;
+    }
+    return name.endsWith(suffix) ? name : `${name}${suffix}`;
+  }
+
   private escapeJSX(text: string): string {
     return text
       .replace(/&/g, "&amp;")
@@ -159,7 +1019,7 @@ ${indentedBody}
       content = this.escapeJSX(node.content || "");
     }
 
-    return `${this.indent()}<${Tag} key={${index}} className="${className}">${content}</${Tag}>`;
+    return `${this.indent()}<${Tag} key={${index}}${this.classNameAttribute(node, className)}${this.elementAttributes(node)}>${content}</${Tag}>`;
   }
 
   private generateInlineNode(node: MarkdownNode, index: number): string {
@@ -175,63 +1035,99 @@ ${indentedBody}
           return node.children.map((child, i) => this.generateInlineNode(child, i)).join("");
         }
         return this.escapeJSX(node.content || "");
+      case "strikethrough":
+        const strikethroughContent = node.children?.map((child, i) => this.generateInlineNode(child, i)).join("") || this.escapeJSX(node.content || "");
+        return `<s key={${index}}>${strikethroughContent}</s>`;
+      case "code":
+        return `<code key={${index}} className="relative rounded bg-muted px-[0.3rem] py-[0.2rem] font-mono text-sm">${this.escapeJSX(node.content || "")}</code>`;
+      case "link":
+        const linkContent = node.children?.map((child, i) => this.generateInlineNode(child, i)).join("") || this.escapeJSX(node.content || "");
+        return `<a key={${index}} href="${this.escapeAttribute(node.href || "")}" className="font-medium text-primary underline underline-offset-4">${linkContent}</a>`;
+      case "custom":
+        return this.generateCustom(node, index, "");
       default:
         return this.escapeJSX(node.content || "");
     }
   }
 
+  /**
+   * A field label, with the inline formatting and links of a checkbox label
+   */
+  private labelContent(node: MarkdownNode): string {
+    if (node.labelChildren && node.labelChildren.length > 0) {
+      return node.labelChildren.map((child, i) => this.generateInlineNode(child, i)).join("");
+    }
+    return this.escapeJSX(node.label || "");
+  }
+
   private generateInput(node: MarkdownNode, index: number): string {
     this.requiredImports.add("Input");
     this.requiredImports.add("Label");
-    const id = node.id || `input-${index}`;
+    const id = this.elementIds.idOf(node);
     const type = node.inputType || "text";
 
-    return `${this.indent()}<div key={${index}} className="space-y-2">
+    return `${this.indent()}<div key={${index}}${this.classNameAttribute(node, "space-y-2")}>
 ${this.indent()}  <Label htmlFor="${id}">${this.escapeJSX(node.label || "")}</Label>
-${this.indent()}  <Input id="${id}" type="${type}" />
+${this.indent()}  <Input id="${id}" type="${type}"${this.elementAttributes(node, ["id", "type", "placeholder", "defaultValue", "value", "aria-describedby", ...VALIDATION_PROPS])}${this.placeholderAttribute(node)}${this.validationAttributes(node)}${this.describedByAttribute(node)}${this.defaultValueAttribute(node)}${this.fieldBinding(node)} />${this.generateHelpText(node)}
 ${this.indent()}</div>`;
   }
 
   private generateTextarea(node: MarkdownNode, index: number): string {
     this.requiredImports.add("Textarea");
     this.requiredImports.add("Label");
-    const id = node.id || `textarea-${index}`;
+    const id = this.elementIds.idOf(node);
 
-    return `${this.indent()}<div key={${index}} className="space-y-2">
+    return `${this.indent()}<div key={${index}}${this.classNameAttribute(node, "space-y-2")}>
 ${this.indent()}  <Label htmlFor="${id}">${this.escapeJSX(node.label || "")}</Label>
-${this.indent()}  <Textarea id="${id}" />
+${this.indent()}  <Textarea id="${id}"${this.elementAttributes(node, ["id", "placeholder", "defaultValue", "value", "aria-describedby", ...VALIDATION_PROPS])}${this.placeholderAttribute(node)}${this.validationAttributes(node)}${this.describedByAttribute(node)}${this.defaultValueAttribute(node)}${this.fieldBinding(node)} />${this.generateHelpText(node)}
 ${this.indent()}</div>`;
   }
 
   private generateDropdown(node: MarkdownNode, index: number): string {
     this.requiredImports.add("Select");
     this.requiredImports.add("Label");
-    const id = node.id || `select-${index}`;
+    const id = this.elementIds.idOf(node);
     const options = node.options || [];
 
-    return `${this.indent()}<div key={${index}} className="space-y-2">
+    return `${this.indent()}<div key={${index}}${this.classNameAttribute(node, "space-y-2")}>
 ${this.indent()}  <Label htmlFor="${id}">${this.escapeJSX(node.label || "")}</Label>
-${this.indent()}  <Select>
-${this.indent()}    <SelectTrigger id="${id}">
-${this.indent()}      <SelectValue placeholder="Select an option" />
+${this.indent()}  <Select${this.validationAttributes(node)}${this.defaultValueAttribute(node)}${this.fieldBinding(node)}>
+${this.indent()}    <SelectTrigger id="${id}"${this.elementAttributes(node, ["id", "aria-describedby"])}${this.describedByAttribute(node)}>
+${this.indent()}      <SelectValue placeholder="${this.escapeAttribute(node.placeholder ?? "Select an option")}" />
 ${this.indent()}    </SelectTrigger>
 ${this.indent()}    <SelectContent>
-${options.map((opt, i) => `${this.indent()}      <SelectItem key={${i}} value="${opt.toLowerCase().replace(/\s+/g, "-")}">${this.escapeJSX(opt)}</SelectItem>`).join("\n")}
+${options.map((opt, i) => `${this.indent()}      <SelectItem key={${i}} value="${this.escapeAttribute(this.optionValue(opt))}">${this.escapeJSX(opt)}</SelectItem>`).join("\n")}
 ${this.indent()}    </SelectContent>
-${this.indent()}  </Select>
+${this.indent()}  </Select>${this.generateHelpText(node)}
 ${this.indent()}</div>`;
   }
 
   private generateCheckbox(node: MarkdownNode, index: number): string {
     this.requiredImports.add("Checkbox");
     this.requiredImports.add("Label");
-    const id = node.id || `checkbox-${index}`;
+    const id = this.elementIds.idOf(node);
 
-    return `${this.indent()}<div key={${index}} className="flex items-center space-x-2">
-${this.indent()}  <Checkbox id="${id}" />
+    // Help text goes under the checkbox row, so both share a wrapper that
+    // takes the key and .class attributes
+    if (node.helpText) {
+      this.indentLevel++;
+    }
+    const rowAttributes = node.helpText
+      ? ` className="flex items-center space-x-2"`
+      : ` key={${index}}${this.classNameAttribute(node, "flex items-center space-x-2")}`;
+    const row = `${this.indent()}<div${rowAttributes}>
+${this.indent()}  <Checkbox id="${id}"${this.elementAttributes(node, ["id", "defaultChecked", "checked", "aria-describedby", ...VALIDATION_PROPS])}${this.validationAttributes(node)}${this.describedByAttribute(node)}${this.defaultValueAttribute(node)}${this.fieldBinding(node)} />
 ${this.indent()}  <Label htmlFor="${id}" className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">
-${this.indent()}    ${this.escapeJSX(node.label || "")}
+${this.indent()}    ${this.labelContent(node)}
 ${this.indent()}  </Label>
+${this.indent()}</div>`;
+    if (!node.helpText) {
+      return row;
+    }
+    this.indentLevel--;
+
+    return `${this.indent()}<div key={${index}}${this.classNameAttribute(node, "space-y-2")}>
+${row}${this.generateHelpText(node)}
 ${this.indent()}</div>`;
   }
 
@@ -239,31 +1135,134 @@ ${this.indent()}</div>`;
     this.requiredImports.add("RadioGroup");
     this.requiredImports.add("Label");
     const options = node.options || [];
+    const optionIds = this.elementIds.optionIdsOf(node);
 
-    return `${this.indent()}<div key={${index}} className="space-y-2">
+    return `${this.indent()}<div key={${index}}${this.classNameAttribute(node, "space-y-2")}>
 ${this.indent()}  <Label>${this.escapeJSX(node.label || "")}</Label>
-${this.indent()}  <RadioGroup>
+${this.indent()}  <RadioGroup${this.elementAttributes(node, ["defaultValue", "value", "aria-describedby", ...VALIDATION_PROPS])}${this.validationAttributes(node)}${this.describedByAttribute(node)}${this.defaultValueAttribute(node)}${this.fieldBinding(node)}>
 ${options.map((opt, i) => {
-      const optId = `radio-${index}-${i}`;
-      const value = opt.toLowerCase().replace(/\s+/g, "-");
+      const optId = optionIds[i];
+      const value = this.optionValue(opt);
       return `${this.indent()}    <div className="flex items-center space-x-2">
-${this.indent()}      <RadioGroupItem id="${optId}" value="${value}" />
+${this.indent()}      <RadioGroupItem id="${optId}" value="${this.escapeAttribute(value)}" />
 ${this.indent()}      <Label htmlFor="${optId}">${this.escapeJSX(opt)}</Label>
 ${this.indent()}    </div>`;
     }).join("\n")}
-${this.indent()}  </RadioGroup>
+${this.indent()}  </RadioGroup>${this.generateHelpText(node)}
 ${this.indent()}</div>`;
   }
 
+  /**
+   * Generate a field as a react-hook-form FormField (react-hook-form mode)
+   */
+  private generateFormField(node: MarkdownNode, index: number): string {
+    this.requiredImports.add("Form");
+    const name = this.fieldNames.get(node);
+    const label = this.labelContent(node);
+    const options = node.options || [];
+    // FormItem sits inside render={({ field }) => ( ... )}
+    const item = `${this.indent()}    `;
+    // FormControl assigns the control's id, so an #id goes on the FormItem
+    const itemId = node.id ? ` id="${this.escapeAttribute(node.id)}"` : "";
+    const controlAttributes = this.elementAttributes(node, ["id", "type", "placeholder", "checked", "value"]);
+
+    let formItem: string;
+    switch (node.type) {
+      case "checkbox":
+        this.requiredImports.add("Checkbox");
+        formItem = `${item}<FormItem${this.classNameAttribute(node, "flex items-center space-x-2")}${itemId}>
+${item}  <FormControl>
+${item}    <Checkbox${controlAttributes} checked={field.value} onCheckedChange={field.onChange} />
+${item}  </FormControl>
+${item}  <FormLabel>${label}</FormLabel>
+${this.formDescription(node, `${item}  `)}${item}  <FormMessage />
+${item}</FormItem>`;
+        break;
+      case "dropdown":
+        this.requiredImports.add("Select");
+        formItem = `${item}<FormItem${this.classNameAttribute(node)}${itemId}>
+${item}  <FormLabel>${label}</FormLabel>
+${item}  <Select onValueChange={field.onChange} value={field.value}>
+${item}    <FormControl>
+${item}      <SelectTrigger${controlAttributes}>
+${item}        <SelectValue placeholder="${this.escapeAttribute(node.placeholder ?? "Select an option")}" />
+${item}      </SelectTrigger>
+${item}    </FormControl>
+${item}    <SelectContent>
+${options.map((opt, i) => `${item}      <SelectItem key={${i}} value="${this.escapeAttribute(this.optionValue(opt))}">${this.escapeJSX(opt)}</SelectItem>`).join("\n")}
+${item}    </SelectContent>
+${item}  </Select>
+${this.formDescription(node, `${item}  `)}${item}  <FormMessage />
+${item}</FormItem>`;
+        break;
+      case "radiogroup":
+        this.requiredImports.add("RadioGroup");
+        formItem = `${item}<FormItem${this.classNameAttribute(node)}${itemId}>
+${item}  <FormLabel>${label}</FormLabel>
+${item}  <FormControl>
+${item}    <RadioGroup${controlAttributes} onValueChange={field.onChange} value={field.value}>
+${options.map((opt, i) => `${item}      <FormItem key={${i}} className="flex items-center space-x-2">
+${item}        <FormControl>
+${item}          <RadioGroupItem value="${this.escapeAttribute(this.optionValue(opt))}" />
+${item}        </FormControl>
+${item}        <FormLabel>${this.escapeJSX(opt)}</FormLabel>
+${item}      </FormItem>`).join("\n")}
+${item}    </RadioGroup>
+${item}  </FormControl>
+${this.formDescription(node, `${item}  `)}${item}  <FormMessage />
+${item}</FormItem>`;
+        break;
+      default: {
+        const control = node.type === "textarea"
+          ? `<Textarea${this.placeholderAttribute(node)}${controlAttributes} {...field} />`
+          : `<Input type="${node.inputType || "text"}"${this.placeholderAttribute(node)}${controlAttributes} {...field} />`;
+        this.requiredImports.add(node.type === "textarea" ? "Textarea" : "Input");
+        formItem = `${item}<FormItem${this.classNameAttribute(node)}${itemId}>
+${item}  <FormLabel>${label}</FormLabel>
+${item}  <FormControl>
+${item}    ${control}
+${item}  </FormControl>
+${this.formDescription(node, `${item}  `)}${item}  <FormMessage />
+${item}</FormItem>`;
+      }
+    }
+
+    return `${this.indent()}<FormField
+${this.indent()}  key={${index}}
+${this.indent()}  control={form.control}
+${this.indent()}  name="${name}"
+${this.indent()}  render={({ field }) => (
+${formItem}
+${this.indent()}  )}
+${this.indent()}/>`;
+  }
+
+  /**
+   * FormDescription line of a FormItem (react-hook-form mode)
+   */
+  private formDescription(node: MarkdownNode, indent: string): string {
+    return node.helpText
+      ? `${indent}<FormDescription>${this.escapeJSX(node.helpText)}</FormDescription>\n`
+      : "";
+  }
+
   private generateButton(node: MarkdownNode, index: number): string {
     this.requiredImports.add("Button");
     const variant = node.variant || "default";
-    const className = node.className ? ` className="${node.className}"` : "";
+    const className = this.classNameAttribute(node);
+
+    // Add onClick handler if button has navigation (screen state only exists inside a workflow)
+    const onClick = node.navigateTo && this.insideWorkflow
+      ? ` onClick={() => setCurrentScreen(${JSON.stringify(node.navigateTo)})}`
+      : "";
 
-    // Add onClick handler if button has navigation
-    const onClick = node.navigateTo ? ` onClick={() => setCurrentScreen('${node.navigateTo}')}` : "";
+    // Inside a form, default buttons submit it and every other button must not
+    let type = "";
+    if (this.insideForm) {
+      type = variant === "default" && !node.navigateTo ? ` type="submit"` : ` type="button"`;
+    }
 
-    return `${this.indent()}<Button key={${index}} variant="${variant}"${className}${onClick}>${this.escapeJSX(node.content || "")}</Button>`;
+    return `${this.indent()}<Button key={${index}}${type} variant="${variant}"${className}${this.elementAttributes(node, ["type", "variant"])}${onClick}>${this.escapeJSX(node.content || "")}</Button>`;
   }
 
   private generateContainer(node: MarkdownNode, index: number): string {
@@ -271,7 +1270,7 @@ ${this.indent()}</div>`;
     const children = node.children ? this.generateNodes(node.children) : "";
     this.indentLevel--;
 
-    return `${this.indent()}<div key={${index}} className="flex gap-2">
+    return `${this.indent()}<div key={${index}}${this.classNameAttribute(node, "flex gap-2")}${this.elementAttributes(node)}>
 ${children}
 ${this.indent()}</div>`;
   }
@@ -286,13 +1285,29 @@ ${this.indent()}</div>`;
       titleContent = this.escapeJSX(node.title);
     }
 
-    // Increment by 2 to account for Card wrapper + CardContent nesting
-    this.indentLevel += 2;
-    const children = node.children ? this.generateNodes(node.children) : "";
-    this.indentLevel -= 2;
+    // In controlled form mode the outermost card with fields becomes a form
+    const isForm = this.usesForm && !this.insideForm && this.containsField(node);
+    if (isForm && this.isControlled() && this.options.typescript) {
+      this.reactTypeImports.add("FormEvent");
+    }
+
+    // Increment by 2 to account for Card wrapper + CardContent nesting (3 inside a form)
+    const depth = isForm ? 3 : 2;
+    const savedInsideForm = this.insideForm;
+    this.indentLevel += depth;
+    this.insideForm = this.insideForm || isForm;
+    let children = node.children ? this.generateNodes(node.children) : "";
+    this.insideForm = savedInsideForm;
+    this.indentLevel -= depth;
+
+    if (isForm) {
+      children = `${this.indent()}    <form onSubmit={handleSubmit} className="space-y-2">
+${children}
+${this.indent()}    </form>`;
+    }
 
     const cardContent = titleContent
-      ? `${this.indent()}<Card key={${index}}>
+      ? `${this.indent()}<Card key={${index}}${this.classNameAttribute(node)}${this.elementAttributes(node)}>
 ${this.indent()}  <CardHeader>
 ${this.indent()}    <CardTitle>${titleContent}</CardTitle>
 ${this.indent()}  </CardHeader>
@@ -300,7 +1315,7 @@ ${this.indent()}  <CardContent className="space-y-2">
 ${children}
 ${this.indent()}  </CardContent>
 ${this.indent()}</Card>`
-      : `${this.indent()}<Card key={${index}}>
+      : `${this.indent()}<Card key={${index}}${this.classNameAttribute(node)}${this.elementAttributes(node)}>
 ${this.indent()}  <CardContent className="pt-6 space-y-2">
 ${children}
 ${this.indent()}  </CardContent>
@@ -314,7 +1329,7 @@ ${this.indent()}</Card>`;
     const headers = node.headers || [];
     const rows = node.rows || [];
 
-    return `${this.indent()}<Table key={${index}}>
+    return `${this.indent()}<Table key={${index}}${this.classNameAttribute(node)}${this.elementAttributes(node)}>
 ${this.indent()}  <TableHeader>
 ${this.indent()}    <TableRow>
 ${headers.map((header, i) => `${this.indent()}      <TableHead key={${i}}>${this.escapeJSX(header)}</TableHead>`).join("\n")}
@@ -328,37 +1343,118 @@ ${this.indent()}  </TableBody>
 ${this.indent()}</Table>`;
   }
 
+  /**
+   * A list styled like the shadcn typography lists; lists nested in an item
+   * sit closer to it
+   */
+  private generateList(node: MarkdownNode, index: number, nested = false): string {
+    const Tag = node.ordered ? "ol" : "ul";
+    const className = `${nested ? "mt-2" : "my-6"} ml-6 ${node.ordered ? "list-decimal" : "list-disc"} space-y-2`;
+    const start = node.ordered && node.start !== undefined ? ` start={${node.start}}` : "";
+
+    this.indentLevel++;
+    const items = (node.children || []).map((item, i) => this.generateListItem(item, i)).join("\n");
+    this.indentLevel--;
+
+    return `${this.indent()}<${Tag} key={${index}}${this.classNameAttribute(node, className)}${this.elementAttributes(node, ["start"])}${start}>
+${items}
+${this.indent()}</${Tag}>`;
+  }
+
+  /**
+   * An item's text, then its nested lists
+   */
+  private generateListItem(node: MarkdownNode, index: number): string {
+    const children = node.children || [];
+    const text = children
+      .filter(child => child.type !== "list")
+      .map((child, i) => this.generateInlineNode(child, i))
+      .join("");
+    const lists = children.filter(child => child.type === "list");
+    const attributes = `${this.classNameAttribute(node)}${this.elementAttributes(node)}`;
+
+    if (lists.length === 0) {
+      return `${this.indent()}<li key={${index}}${attributes}>${text}</li>`;
+    }
+
+    this.indentLevel++;
+    const nested = lists.map((list, i) => this.generateList(list, i, true)).join("\n");
+    this.indentLevel--;
+
+    return `${this.indent()}<li key={${index}}${attributes}>
+${this.indent()}  ${text}
+${nested}
+${this.indent()}</li>`;
+  }
+
   private generateGrid(node: MarkdownNode, index: number): string {
-    const gridClasses = `grid ${node.gridConfig || ""}`;
+    const gridClasses = `grid ${node.gridConfig || ""}`.trim();
 
     this.indentLevel++;
     const children = node.children ? this.generateNodes(node.children) : "";
     this.indentLevel--;
 
-    return `${this.indent()}<div key={${index}} className="${gridClasses}">
+    return `${this.indent()}<div key={${index}}${this.classNameAttribute(node, gridClasses)}${this.elementAttributes(node)}>
 ${children}
 ${this.indent()}</div>`;
   }
 
   private generateDiv(node: MarkdownNode, index: number): string {
-    const className = node.className || "";
-
     this.indentLevel++;
     const children = node.children ? this.generateNodes(node.children) : "";
     this.indentLevel--;
 
-    return `${this.indent()}<div key={${index}} className="${className}">
+    return `${this.indent()}<div key={${index}}${this.classNameAttribute(node)}${this.elementAttributes(node)}>
 ${children}
 ${this.indent()}</div>`;
   }
 
+  /**
+   * Tabs with a trigger per tab, the first tab selected initially. Each tab's
+   * value is its element id, derived from its label.
+   */
+  private generateTabs(node: MarkdownNode, index: number): string {
+    this.requiredImports.add("Tabs");
+    const tabs = node.children || [];
+    const defaultValue = tabs.length > 0 ? ` defaultValue="${this.tabValue(tabs[0])}"` : "";
+
+    this.indentLevel++;
+    const contents = tabs.map((tab, i) => this.generateTabContent(tab, i)).join("\n");
+    this.indentLevel--;
+
+    return `${this.indent()}<Tabs key={${index}}${defaultValue}${this.classNameAttribute(node)}${this.elementAttributes(node, ["defaultValue"])}>
+${this.indent()}  <TabsList>
+${tabs.map((tab, i) => `${this.indent()}    <TabsTrigger key={${i}} value="${this.tabValue(tab)}">${this.escapeJSX(tab.label || "")}</TabsTrigger>`).join("\n")}
+${this.indent()}  </TabsList>
+${contents}
+${this.indent()}</Tabs>`;
+  }
+
+  /**
+   * A tab's content; Radix gives it an id of its own to link it to its
+   * trigger, so the tab's id is only its value
+   */
+  private generateTabContent(node: MarkdownNode, index: number): string {
+    this.indentLevel++;
+    const children = node.children ? this.generateNodes(node.children) : "";
+    this.indentLevel--;
+
+    return `${this.indent()}<TabsContent key={${index}} value="${this.tabValue(node)}"${this.classNameAttribute(node, "space-y-2")}${this.elementAttributes(node, ["id", "value"])}>
+${children}
+${this.indent()}</TabsContent>`;
+  }
+
+  private tabValue(node: MarkdownNode): string {
+    return this.escapeAttribute(this.elementIds.idOf(node) || "");
+  }
+
   private generateText(node: MarkdownNode, index: number): string {
     if (node.children && node.children.length > 0) {
       // Text with inline emphasis
       const inlineContent = node.children.map((child, i) => this.generateInlineNode(child, i)).join("");
-      return `${this.indent()}<p key={${index}}>${inlineContent}</p>`;
+      return `${this.indent()}<p key={${index}}${this.classNameAttribute(node)}${this.elementAttributes(node)}>${inlineContent}</p>`;
     }
-    return `${this.indent()}<p key={${index}}>${this.escapeJSX(node.content || "")}</p>`;
+    return `${this.indent()}<p key={${index}}${this.classNameAttribute(node)}${this.elementAttributes(node)}>${this.escapeJSX(node.content || "")}</p>`;
   }
 
   private generateBold(node: MarkdownNode, index: number): string {
@@ -381,45 +1477,81 @@ ${this.indent()}</div>`;
     const src = node.src || "";
     const alt = node.alt || "";
 
-    return `${this.indent()}<img key={${index}} src="${src}" alt="${this.escapeJSX(alt)}" className="max-w-full h-auto" />`;
+    return `${this.indent()}<img key={${index}} src="${src}" alt="${this.escapeJSX(alt)}"${this.classNameAttribute(node, "max-w-full h-auto")}${this.elementAttributes(node, ["src", "alt"])} />`;
   }
 
+  /**
+   * Generate a workflow as its own component so its screen state lives in a
+   * top-level useState hook. Each workflow gets independent state; the
+   * component is rendered in place of the workflow.
+   */
   private generateWorkflow(node: MarkdownNode, index: number): string {
     const screens = node.children || [];
     const initialScreen = node.initialScreen || screens[0]?.id || "home";
+    const componentName = this.uniqueWorkflowComponentName(node);
 
-    // Generate state management
-    const stateDeclaration = `${this.indent()}const [currentScreen, setCurrentScreen] = useState('${initialScreen}');`;
-
-    // Generate screen rendering
-    this.indentLevel++;
+    // Screen content sits inside `if (...) { return ( <div> ... </div> ); }`
+    const savedIndentLevel = this.indentLevel;
+    const savedInsideWorkflow = this.insideWorkflow;
+    this.indentLevel = 4;
+    this.insideWorkflow = true;
     const screenCases = screens.map((screen, i) => {
       const screenId = screen.id || `screen-${i}`;
       const screenContent = screen.children ? this.generateNodes(screen.children) : "";
 
-      return `${this.indent()}${i === 0 ? '' : 'else '}if (currentScreen === '${screenId}') {
-${this.indent()}  return (
-${this.indent()}    <div className="space-y-2">
+      return `  if (currentScreen === ${JSON.stringify(screenId)}) {
+    return (
+      <div${this.classNameAttribute(screen, "space-y-2")}${this.elementAttributes(screen)}>
 ${screenContent}
-${this.indent()}    </div>
-${this.indent()}  );
-${this.indent()}}`;
+      </div>
+    );
+  }
+`;
     }).join('\n');
-    this.indentLevel--;
+    this.indentLevel = savedIndentLevel;
+    this.insideWorkflow = savedInsideWorkflow;
 
-    // Return fallback if no screen matches
-    const fallback = `${this.indent()}return <div>Screen not found</div>;`;
+    // In TypeScript mode screen ids are a union type, so navigating to a
+    // screen that does not exist fails to compile
+    const screenType = `${componentName}Screen`;
+    const screenTypeDeclaration = this.options.typescript
+      ? `type ${screenType} = ${screens.map((screen, i) => JSON.stringify(screen.id || `screen-${i}`)).join(" | ") || "string"};\n\n`
+      : "";
+    const stateType = this.options.typescript ? `<${screenType}>` : "";
 
-    return `${this.indent()}<div key={${index}}>
-${this.indent()}  {(() => {
-${stateDeclaration}
+    this.workflowComponents.push(`${screenTypeDeclaration}function ${componentName}(${this.workflowComponentParams()}) {
+  const [currentScreen, setCurrentScreen] = useState${stateType}(${JSON.stringify(initialScreen)});
 
 ${screenCases}
-${fallback}
-${this.indent()}  })()}
+  return <div>Screen not found</div>;
+}`);
+
+    // The workflow's own #id, .class and key=value attributes go on a wrapper
+    if (!node.id && !node.className && !node.attributes) {
+      return `${this.indent()}<${componentName} key={${index}}${this.workflowPropsAttributes()} />`;
+    }
+    return `${this.indent()}<div key={${index}}${this.classNameAttribute(node)}${this.elementAttributes(node)}>
+${this.indent()}  <${componentName}${this.workflowPropsAttributes()} />
 ${this.indent()}</div>`;
   }
 
+  /**
+   * Component name for a workflow, derived from its name
+   * (OnboardingWorkflow) or numbered (Workflow1), and unique in the document
+   */
+  private uniqueWorkflowComponentName(node: MarkdownNode): string {
+    const baseName = node.name
+      ? this.toComponentName(node.name, "Workflow")
+      : `Workflow${this.workflowComponents.length + 1}`;
+
+    let name = baseName;
+    for (let n = 2; this.workflowComponentNames.has(name); n++) {
+      name = `${baseName}${n}`;
+    }
+    this.workflowComponentNames.add(name);
+    return name;
+  }
+
   private generateScreen(node: MarkdownNode, index: number): string {
     // Screens are handled within workflow generation
     // This method is for standalone screen nodes (if used outside workflow)
@@ -427,7 +1559,7 @@ ${this.indent()}</div>`;
     const children = node.children ? this.generateNodes(node.children) : "";
     this.indentLevel--;
 
-    return `${this.indent()}<div key={${index}} data-screen-id="${node.id || index}" className="space-y-2">
+    return `${this.indent()}<div key={${index}} data-screen-id="${node.id || index}"${this.classNameAttribute(node, "space-y-2")}${this.elementAttributes(node, ["data-screen-id"])}>
 ${children}
 ${this.indent()}</div>`;
   }
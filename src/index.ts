@@ -1,7 +1,84 @@
 // Export parser
-export { MarkdownParser } from "./parser";
-export type { MarkdownNode } from "./parser/types";
+export {
+  MarkdownParser,
+  MarkdownPrinter,
+  MarkdownFormatter,
+  WorkflowValidator,
+  visit,
+  transform,
+  isNode,
+  isFieldNode,
+  isInlineNode,
+  builders,
+} from "./parser";
+export type {
+  MarkdownNode,
+  InputType,
+  FieldValidation,
+  SourcePosition,
+  SourceRange,
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  PrinterOptions,
+  FormatterOptions,
+  NodePath,
+  NodeType,
+  Visitor,
+  VisitorHooks,
+  VisitAction,
+  VisitCallback,
+  TransformCallback,
+  TransformVisitor,
+  BaseNode,
+  ProtoNode,
+  NodeOfType,
+  InlineNode,
+  FieldNode,
+  FieldNodeBase,
+  HeaderNode,
+  TextNode,
+  BoldNode,
+  ItalicNode,
+  StrikethroughNode,
+  CodeNode,
+  LinkNode,
+  InputNode,
+  TextareaNode,
+  DropdownNode,
+  CheckboxNode,
+  RadioGroupNode,
+  ButtonNode,
+  ImageNode,
+  TableNode,
+  ListNode,
+  ListItemNode,
+  CardNode,
+  ContainerNode,
+  GridNode,
+  DivNode,
+  TabsNode,
+  TabNode,
+  WorkflowNode,
+  ScreenNode,
+  CustomNode,
+  ParserOptions,
+  ParserPlugin,
+  PluginContext,
+  PrintContext,
+  LineRule,
+  BlockRule,
+  InlineRule,
+} from "./parser/types";
 
 // Export code generators
 export { ShadcnCodeGenerator } from "./ShadcnCodeGenerator";
-export { HtmlGenerator } from "./HtmlGenerator";
\ No newline at end of file
+export type {
+  ShadcnGeneratorOptions,
+  ShadcnRenderer,
+  ShadcnRenderContext,
+  ShadcnComponentMapping,
+  ShadcnComponentContext,
+} from "./ShadcnCodeGenerator";
+export { HtmlGenerator } from "./HtmlGenerator";
+export type { HtmlGeneratorOptions, HtmlRenderer, HtmlRenderContext } from "./HtmlGenerator";
\ No newline at end of file
@@ -0,0 +1,347 @@
+import { MarkdownParser } from "./MarkdownParser";
+import { MarkdownPrinter } from "./MarkdownPrinter";
+import { FormatterOptions, MarkdownNode } from "./types";
+
+/**
+ * A table cell: text up to a pipe that is not escaped (a \| b)
+ */
+const TABLE_CELL = /(?:\\.|[^\\|])+/g;
+
+/**
+ * A pipe that is not escaped
+ */
+const TABLE_PIPE = /(?:^|[^\\])(?:\\\\)*\|/;
+
+/**
+ * A closing bracket that is not escaped
+ */
+const CLOSING_BRACKET = /(?:^|[^\\])(?:\\\\)*\]/;
+
+/**
+ * A list item line (- item, 1. item); the number is captured
+ */
+const LIST_ITEM = /^(?:-|(\d+)\.)\s+\S/;
+
+/**
+ * A trailing {...} attribute block
+ */
+const ATTRIBUTE_BLOCK = /\s*\{(?:[^{}"]|"(?:[^"\\]|\\.)*")*\}$/;
+
+/**
+ * Formats Proto Markdown source.
+ *
+ * Block content is re-indented one level per nesting depth, runs of blank
+ * lines are collapsed, block openers, field markers and buttons get
+ * canonical spacing, table columns are aligned, and nested list items are
+ * indented one level under their parent item. Works line by line, so
+ * lines the parser does not recognise (such as <!-- comments -->) are kept
+ * as written, and a line is only rewritten when the rewrite parses to the
+ * same node. Documents with unclosed or mismatched blocks are returned
+ * unchanged, since the parser recovers their structure from indentation.
+ * Plugin block openers are kept as written, and plugin lines are printed
+ * by their rule's print function or kept as written.
+ */
+export class MarkdownFormatter {
+  private options: Required<FormatterOptions>;
+  private parser: MarkdownParser;
+  private printer: MarkdownPrinter;
+
+  constructor(options: FormatterOptions = {}) {
+    this.options = {
+      indentSize: 2,
+      plugins: [],
+      ...options,
+    };
+    this.parser = new MarkdownParser({ plugins: this.options.plugins });
+    this.printer = new MarkdownPrinter({ plugins: this.options.plugins });
+  }
+
+  format(source: string): string {
+    const { diagnostics } = this.parser.parse(source);
+    if (
+      diagnostics.some(
+        (diagnostic) =>
+          diagnostic.code.startsWith("unclosed-") || diagnostic.code === "mismatched-closer"
+      )
+    ) {
+      return source;
+    }
+
+    const rawLines = source.split("\n");
+    const lines = rawLines.map((line) => line.trim());
+    const formatted: string[] = [];
+    // Closers of the open blocks, innermost last
+    const closers: string[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      const depth = closers.length;
+
+      if (!line) {
+        // Keep one blank line between content
+        if (formatted.length > 0 && formatted[formatted.length - 1] !== "") {
+          formatted.push("");
+        }
+        i++;
+        continue;
+      }
+
+      if (line === "--]" || line === "]") {
+        // A stray closer stays at the current depth
+        if (closers[closers.length - 1] === line) {
+          closers.pop();
+        }
+        formatted.push(this.indent(line, closers.length));
+        i++;
+        continue;
+      }
+
+      const pluginCloser = this.pluginBlockCloser(line);
+      if (pluginCloser !== undefined) {
+        formatted.push(this.indent(line, depth));
+        closers.push(pluginCloser);
+        i++;
+        continue;
+      }
+
+      if (line.startsWith("|")) {
+        const end = this.tableEnd(lines, i);
+        formatted.push(...this.formatTable(lines.slice(i, end)).map((row) => this.indent(row, depth)));
+        i = end;
+        continue;
+      }
+
+      if (LIST_ITEM.test(line)) {
+        const end = this.listEnd(rawLines, i);
+        formatted.push(...this.formatList(rawLines.slice(i, end)).map((row) => this.indent(row, depth)));
+        // A list after this one, indented less, would join it once re-indented
+        if (end < lines.length && LIST_ITEM.test(lines[end])) {
+          formatted.push("");
+        }
+        i = end;
+        continue;
+      }
+
+      const opener = this.formatOpener(line);
+      if (opener !== undefined) {
+        formatted.push(this.indent(opener, depth));
+        closers.push(opener.startsWith("[--") ? "--]" : "]");
+        i++;
+        continue;
+      }
+
+      formatted.push(this.indent(this.formatLine(line), depth));
+      i++;
+    }
+
+    while (formatted.length > 0 && formatted[formatted.length - 1] === "") {
+      formatted.pop();
+    }
+    return formatted.length > 0 ? `${formatted.join("\n")}\n` : "";
+  }
+
+  /**
+   * The closer of the plugin block a line opens, or undefined if it opens
+   * none. Like the parser, openers are matched without their attribute block.
+   */
+  private pluginBlockCloser(line: string): string | undefined {
+    const opener = line.replace(ATTRIBUTE_BLOCK, "");
+    const rule = this.options.plugins
+      .flatMap((plugin) => plugin.blocks || [])
+      .find((block) => opener.match(block.opener) || line.match(block.opener));
+    return rule ? rule.closer ?? "]" : undefined;
+  }
+
+  /**
+   * A block opener with canonical spacing after its keyword, or undefined
+   * if the line does not open a block
+   */
+  private formatOpener(line: string): string | undefined {
+    if (line === "[workflow" || line.startsWith("[workflow ")) {
+      return line;
+    }
+
+    const cardMatch = line.match(/^\[--\s*(.*)$/);
+    if (cardMatch) {
+      return cardMatch[1] ? `[-- ${cardMatch[1]}` : "[--";
+    }
+
+    const screenMatch = line.match(/^\[screen\s+(.+)$/);
+    if (screenMatch) {
+      return `[screen ${screenMatch[1]}`;
+    }
+
+    const tabsMatch = line.match(/^\[tabs(?:\s+(\{.*\}))?$/);
+    if (tabsMatch) {
+      return tabsMatch[1] ? `[tabs ${tabsMatch[1]}` : "[tabs";
+    }
+
+    // A tab label may contain escaped brackets
+    const tabMatch = line.match(/^\[tab\s+(.+)$/);
+    if (tabMatch && !CLOSING_BRACKET.test(line)) {
+      return `[tab ${tabMatch[1]}`;
+    }
+
+    const gridMatch = line.match(/^\[grid\s+(.*)$/);
+    if (gridMatch) {
+      return `[grid ${gridMatch[1]}`.trimEnd();
+    }
+
+    const divMatch = line.match(/^\[\s*(.*)$/);
+    if (divMatch && !line.includes("]")) {
+      return divMatch[1] ? `[ ${divMatch[1]}` : "[";
+    }
+
+    return undefined;
+  }
+
+  /**
+   * A single-line element printed canonically when that keeps its meaning
+   */
+  private formatLine(line: string): string {
+    const node = this.parseSingleNode(line);
+    if (!node) {
+      return line;
+    }
+
+    const printed = this.printer.print([node]).trimEnd();
+    const reparsed = this.parseSingleNode(printed);
+    // An unescaped pipe would make the line a row of a table above it
+    const joinsTable = TABLE_PIPE.test(printed) && !TABLE_PIPE.test(line);
+    return !printed.includes("\n") && !joinsTable && reparsed && this.sameNode(node, reparsed)
+      ? printed
+      : line;
+  }
+
+  /**
+   * The node a line parses to, if it parses cleanly to exactly one
+   */
+  private parseSingleNode(line: string): MarkdownNode | undefined {
+    const { nodes, diagnostics } = this.parser.parse(line);
+    const clean = diagnostics.every(
+      (diagnostic) => diagnostic.code === "navigation-outside-workflow"
+    );
+    return clean && nodes.length === 1 ? nodes[0] : undefined;
+  }
+
+  private sameNode(a: unknown, b: unknown): boolean {
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+      return a === b;
+    }
+
+    const entries = (value: object) =>
+      Object.entries(value).filter(([, entry]) => entry !== undefined);
+    const aEntries = entries(a);
+    const bEntries = entries(b);
+    return (
+      Array.isArray(a) === Array.isArray(b) &&
+      aEntries.length === bEntries.length &&
+      aEntries.every(([key, value]) => this.sameNode(value, (b as Record<string, unknown>)[key]))
+    );
+  }
+
+  /**
+   * Index just past a table: rows continue while lines contain an unescaped
+   * pipe
+   */
+  private tableEnd(lines: string[], start: number): number {
+    let end = start + 1;
+    while (end < lines.length && lines[end] && TABLE_PIPE.test(lines[end])) {
+      end++;
+    }
+    return end;
+  }
+
+  /**
+   * Table rows with aligned columns and a canonical separator
+   */
+  private formatTable(rows: string[]): string[] {
+    const cellsOf = (row: string) =>
+      (row.match(TABLE_CELL) || [])
+        .map((cell) => cell.trim())
+        .filter((cell) => cell.length > 0);
+
+    // The parser skips a second line containing - and |
+    const hasSeparator = rows.length > 1 && rows[1].includes("-");
+    const table = [rows[0], ...rows.slice(hasSeparator ? 2 : 1)].map(cellsOf);
+    if (table[0].length === 0) {
+      return rows;
+    }
+
+    const widths: number[] = [];
+    for (const cells of table) {
+      cells.forEach((cell, column) => {
+        widths[column] = Math.max(widths[column] ?? 3, cell.length);
+      });
+    }
+
+    const printRow = (cells: string[]) =>
+      `| ${cells.map((cell, column) => cell.padEnd(widths[column])).join(" | ")} |`;
+    const separator = `|${table[0].map((_, column) => "-".repeat(widths[column] + 2)).join("|")}|`;
+
+    return [printRow(table[0]), separator, ...table.slice(1).map(printRow)];
+  }
+
+  /**
+   * Index just past a list, which ends where the parser ends it: at a line
+   * that is not an item, an item indented less than the first, or an item
+   * as indented as the first with the other kind of marker
+   */
+  private listEnd(lines: string[], start: number): number {
+    const indent = this.indentation(lines[start]);
+    const ordered = this.isOrderedItem(lines[start]);
+    let end = start + 1;
+    while (end < lines.length && LIST_ITEM.test(lines[end].trim())) {
+      const itemIndent = this.indentation(lines[end]);
+      if (itemIndent < indent || (itemIndent === indent && this.isOrderedItem(lines[end]) !== ordered)) {
+        break;
+      }
+      end++;
+    }
+    return end;
+  }
+
+  /**
+   * List items printed canonically, each indented one level per list it is
+   * nested in. An item nests under the closest item before it that is
+   * indented less, as the parser nests it. Lists whose rewrite would nest
+   * differently (two lists nested in one item at different depths) keep
+   * their indentation.
+   */
+  private formatList(items: string[]): string[] {
+    // Indentation of the item at each nesting level, outermost first
+    const levels: number[] = [];
+    const formatted = items.map((item) => {
+      const itemIndent = this.indentation(item);
+      while (levels.length > 0 && itemIndent < levels[levels.length - 1]) {
+        levels.pop();
+      }
+      if (levels.length === 0 || itemIndent > levels[levels.length - 1]) {
+        levels.push(itemIndent);
+      }
+      return this.indent(this.formatLine(item.trim()), levels.length - 1);
+    });
+
+    const indent = this.indentation(items[0]);
+    const asWritten = items.map((item) => item.slice(indent).trimEnd());
+    return this.sameNode(
+      this.parser.parse(formatted.join("\n")).nodes,
+      this.parser.parse(asWritten.join("\n")).nodes
+    )
+      ? formatted
+      : asWritten;
+  }
+
+  private isOrderedItem(line: string): boolean {
+    return line.trim().match(LIST_ITEM)?.[1] !== undefined;
+  }
+
+  private indentation(line: string): number {
+    return line.length - line.trimStart().length;
+  }
+
+  private indent(line: string, depth: number): string {
+    return `${" ".repeat(depth * this.options.indentSize)}${line}`;
+  }
+}
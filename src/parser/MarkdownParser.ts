@@ -1,7 +1,123 @@
-import { MarkdownNode, ParserOptions, ParseResult } from "./types";
+import {
+  BlockRule,
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  FieldValidation,
+  InlineRule,
+  InputType,
+  MarkdownNode,
+  ParserOptions,
+  ParserPlugin,
+  ParseResult,
+  PluginContext,
+  SourcePosition,
+  SourceRange,
+} from "./types";
+import { WorkflowValidator } from "./WorkflowValidator";
+
+/**
+ * Block keywords recognised after an opening [
+ */
+const CONTAINER_KEYWORDS = ["grid", "tabs", "tab", "screen", "workflow"];
+
+type BlockKind = "card" | "grid" | "div" | "tabs" | "tab" | "screen" | "workflow" | "block";
+
+/**
+ * A block whose content is being parsed. Plugin blocks ("block") are named
+ * by their rule and may close like a card or like a grid.
+ */
+type OpenBlock = { kind: BlockKind; name: string; closer: "]" | "--]" };
+
+/**
+ * Input types accepted in field annotations ({email}, {number}, ...)
+ */
+const INPUT_TYPES: InputType[] = ["text", "password", "email", "number", "tel", "url", "date", "search"];
+
+/**
+ * Node types that accept a field annotation
+ */
+const FIELD_TYPES = ["input", "textarea", "dropdown", "checkbox", "radiogroup"];
+
+/**
+ * Text ending in an attribute block ([(Save)] {#save .w-full}), or a field
+ * ending in an annotation (Email ___ {email required}); quoted values may
+ * contain braces, and \" and \\ escapes
+ */
+const ATTRIBUTE_BLOCK = /^(?:(.*\S)\s+)?\{((?:[^{}"]|"(?:[^"\\]|\\.)*")*)\}$/;
+
+/**
+ * A backslash escape: a backslash before ASCII punctuation makes it literal
+ * (\*, \[, \\)
+ */
+const ESCAPE = /\\([!-\/:-@\[-`{-~])/;
+
+/**
+ * An escape masked for line matching: a private-use character followed by
+ * the escaped character shifted into the private-use area, so it keeps the
+ * length of the escape and no syntax pattern matches it
+ */
+const MASK = 0xe000;
+const MASKED_ESCAPE = /\uE000([\uE021-\uE07E])/g;
+
+/**
+ * A list item line: a dash (- item) or a number and a dot (1. item), then
+ * the item text
+ */
+const LIST_ITEM = /^(?:-|(\d+)\.)\s+(\S.*)$/;
+
+/**
+ * A tabs block opener, with an optional attribute block ([tabs {.w-full}),
+ * and the opener of a tab inside it ([tab Account)
+ */
+const TABS_OPENER = /^\[tabs(?:\s+\{.*\})?$/;
+const TAB_OPENER = /^\[tab\s+(.+)$/;
+
+type BlockResult = { node: MarkdownNode; nextIndex: number };
+
+/**
+ * A parsed block with the diagnostics reported while parsing it
+ */
+type ParsedBlock = { result: BlockResult; diagnostics: Diagnostic[] };
+
+/**
+ * One entry of an attribute block: key=value, or a bare word (#id, .class,
+ * required, email, ...)
+ */
+type AttributeToken = {
+  token: string;
+  key?: string;
+  value?: string;
+  quoted: boolean;
+  word?: string;
+  start: SourcePosition;
+  end: SourcePosition;
+};
+
+/**
+ * An emphasis marker waiting for its partner while inline text is parsed,
+ * at an offset into the text
+ */
+type Delimiter = { marker: "*" | "_" | "~~"; start: number; canOpen: boolean; canClose: boolean };
+
+const EMPHASIS_TYPES = { "*": "bold", _: "italic", "~~": "strikethrough" } as const;
+
+/**
+ * A letter or digit; an underscore between two of them (snake_case) is not
+ * an italic marker
+ */
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
 
 export class MarkdownParser {
   private options: ParserOptions;
+  private diagnostics: Diagnostic[] = [];
+  private openBlocks: OpenBlock[] = [];
+  // Source range of every node of the current parse, recorded whether or
+  // not the positions option puts them on the nodes
+  private ranges = new Map<MarkdownNode, SourceRange>();
+  // Blocks of the current parse by opening line, reused when an unclosed
+  // enclosing block parses its content again within its dedent bound
+  private parsedBlocks = new Map<number, ParsedBlock>();
 
   constructor(options: ParserOptions = {}) {
     this.options = {
@@ -14,8 +130,11 @@ export class MarkdownParser {
   parse(markdown: string): ParseResult {
     const lines = markdown.split("\n");
     const nodes: MarkdownNode[] = [];
-    const errors: string[] = [];
     let i = 0;
+    this.diagnostics = [];
+    this.openBlocks = [];
+    this.ranges = new Map();
+    this.parsedBlocks = new Map();
 
     while (i < lines.length) {
       const line = this.options.preserveWhitespace ? lines[i] : lines[i].trim();
@@ -25,48 +144,35 @@ export class MarkdownParser {
         continue;
       }
 
-      // Check for table (line with pipes)
-      if (line.includes("|") && line.trim().startsWith("|")) {
-        const headers = line
-          .split("|")
-          .map((h) => h.trim())
-          .filter((h) => h.length > 0);
-
+      // Skip closers that have no open block
+      if (line === "--]" || line === "]") {
+        this.reportStrayCloser(lines, i);
         i++;
-        // Skip separator line (|---|---|)
-        if (i < lines.length) {
-          const separatorLine = this.options.preserveWhitespace
-            ? lines[i]
-            : lines[i].trim();
-          if (separatorLine.includes("-") && separatorLine.includes("|")) {
-            i++;
-          }
-        }
-
-        // Parse table rows
-        const rows: string[][] = [];
-        while (i < lines.length) {
-          const rowLine = this.options.preserveWhitespace
-            ? lines[i]
-            : lines[i].trim();
+        continue;
+      }
 
-          if (!rowLine || !rowLine.includes("|")) {
-            break;
-          }
+      // Check for table (line with pipes)
+      if (line.includes("|") && line.trim().startsWith("|")) {
+        const result = this.parseTable(lines, i);
+        nodes.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
 
-          const cells = rowLine
-            .split("|")
-            .map((c) => c.trim())
-            .filter((c) => c.length > 0);
-          rows.push(cells);
-          i++;
-        }
+      // Check for list (- item or 1. item)
+      if (LIST_ITEM.test(line.trim())) {
+        const result = this.parseList(lines, i);
+        nodes.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
 
-        nodes.push({
-          type: "table",
-          headers,
-          rows,
-        });
+      // Check for plugin block start
+      const blockRule = this.matchBlockRule(line);
+      if (blockRule) {
+        const result = this.parsePluginBlock(lines, i, blockRule.rule, blockRule.match);
+        nodes.push(result.node);
+        i = result.nextIndex;
         continue;
       }
 
@@ -87,6 +193,32 @@ export class MarkdownParser {
         continue;
       }
 
+      // Check for screen used outside a workflow
+      const screenMatch = line.match(/^\[screen\s+(.+)$/);
+      if (screenMatch) {
+        const result = this.parseStandaloneScreen(lines, i, screenMatch[1].trim());
+        nodes.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
+      // Check for tabs start
+      if (TABS_OPENER.test(line)) {
+        const result = this.parseTabs(lines, i);
+        nodes.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
+      // Check for tab used outside tabs
+      const tabLabel = this.tabLabel(line);
+      if (tabLabel !== undefined) {
+        const result = this.parseStandaloneTab(lines, i, tabLabel);
+        nodes.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
       // Check for grid start ([grid cols-2 gap-4)
       const gridMatch = line.match(/^\[grid\s+(.*)$/);
       if (gridMatch) {
@@ -105,26 +237,57 @@ export class MarkdownParser {
         continue;
       }
 
-      const node = this.parseLine(line);
+      const node = this.parseLine(line, this.lineStart(lines, i));
       if (node) {
         nodes.push(node);
       } else if (this.options.strict) {
-        errors.push(`Line ${i + 1}: Unable to parse "${line}"`);
+        this.report(
+          "unparsed-line",
+          "error",
+          `Unable to parse "${line}"`,
+          this.lineStart(lines, i),
+          this.lineEnd(lines, i)
+        );
       }
       i++;
     }
 
-    return { nodes, errors: errors.length > 0 ? errors : undefined };
+    for (const diagnostic of new WorkflowValidator().validate(nodes, this.ranges)) {
+      this.addDiagnostic(diagnostic);
+    }
+
+    const diagnostics = this.diagnostics;
+    const errors = diagnostics
+      .filter((diagnostic) => diagnostic.severity === "error")
+      .map((diagnostic) =>
+        diagnostic.range
+          ? `Line ${diagnostic.range.start.line}: ${diagnostic.message}`
+          : diagnostic.message
+      );
+
+    return {
+      nodes,
+      diagnostics,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  private parseWorkflow(lines: string[], startIndex: number): BlockResult {
+    return this.parseBlock("workflow", lines, startIndex, (blockLines) =>
+      this.parseWorkflowBody(blockLines, startIndex)
+    );
   }
 
-  private parseWorkflow(
+  private parseWorkflowBody(
     lines: string[],
     startIndex: number
-  ): { node: MarkdownNode; nextIndex: number } {
+  ): BlockResult {
     const screens: MarkdownNode[] = [];
     let i = startIndex + 1;
     let depth = 1;
-    let initialScreen: string | undefined;
+    let implicitlyClosed = false;
+    const header = this.parseWorkflowHeader(lines, startIndex);
+    let initialScreen = header.start;
 
     // Parse workflow content until we find the matching closing ]
     while (i < lines.length && depth > 0) {
@@ -138,14 +301,21 @@ export class MarkdownParser {
         }
       }
 
+      // A card closer closes an enclosing card (leaving the workflow
+      // unclosed) or, mismatched, the workflow itself
+      if (workflowLine === "--]") {
+        implicitlyClosed = this.reportMismatchedCloser(lines, i, startIndex);
+        break;
+      }
+
       // Check for screen opening ([screen id)
       const screenMatch = workflowLine.match(/^\[screen\s+(.+)$/);
       if (screenMatch) {
-        const screenId = screenMatch[1].trim();
+        const screenId = this.splitAttributeBlock(screenMatch[1].trim()).text;
         const result = this.parseScreen(lines, i, screenId);
         screens.push(result.node);
 
-        // First screen becomes the initial screen
+        // Without start=, the first screen becomes the initial screen
         if (!initialScreen) {
           initialScreen = screenId;
         }
@@ -154,27 +324,95 @@ export class MarkdownParser {
         continue;
       }
 
+      if (workflowLine) {
+        this.report(
+          "content-outside-screen",
+          "warning",
+          `Workflow content must be inside a [screen block; ignoring "${workflowLine}"`,
+          this.lineStart(lines, i),
+          this.lineEnd(lines, i)
+        );
+      }
       i++;
     }
 
     return {
-      node: {
-        type: "workflow",
-        children: screens,
-        initialScreen: initialScreen || (screens[0]?.id),
-      },
-      nextIndex: i + 1,
+      node: this.located(
+        {
+          type: "workflow",
+          children: screens,
+          initialScreen: initialScreen || (screens[0]?.id),
+          ...(header.name && { name: header.name }),
+        },
+        this.lineStart(lines, startIndex),
+        this.lineEnd(lines, implicitlyClosed ? i - 1 : i)
+      ),
+      nextIndex: implicitlyClosed ? i : i + 1,
     };
   }
 
+  /**
+   * Parse attributes from a workflow header line
+   * ([workflow start=login name="Customer Onboarding"). A trailing ] is
+   * tolerated and ignored.
+   */
+  private parseWorkflowHeader(
+    lines: string[],
+    index: number
+  ): { start?: string; name?: string } {
+    const line = this.options.preserveWhitespace ? lines[index] : lines[index].trim();
+    const header: { start?: string; name?: string } = {};
+    const attributesStart = line.indexOf("[workflow") + "[workflow".length;
+    const attributes = this.splitAttributeBlock(
+      line.slice(attributesStart).replace(/\]\s*$/, "")
+    ).text;
+
+    for (const match of attributes.matchAll(/([\w-]+)=(?:"((?:[^"\\]|\\.)*)"|(\S+))|(\S+)/g)) {
+      const [token, key, quotedValue, value] = match;
+      const start = this.offset(
+        this.lineStart(lines, index),
+        attributesStart + (match.index ?? 0)
+      );
+      const end = this.offset(start, token.length);
+
+      if (key === "start" || key === "name") {
+        header[key] = quotedValue !== undefined ? this.unescapeQuoted(quotedValue) : value;
+      } else {
+        this.report(
+          "unknown-workflow-attribute",
+          "warning",
+          key
+            ? `Unknown workflow attribute "${key}"; expected start or name`
+            : `Expected a key=value workflow attribute, found "${token}"`,
+          start,
+          end
+        );
+      }
+    }
+
+    return header;
+  }
+
   private parseScreen(
     lines: string[],
     startIndex: number,
     screenId: string
-  ): { node: MarkdownNode; nextIndex: number } {
+  ): BlockResult {
+    const id = this.splitAttributeBlock(screenId).text;
+    return this.parseBlock("screen", lines, startIndex, (blockLines) =>
+      this.parseScreenBody(blockLines, startIndex, id)
+    );
+  }
+
+  private parseScreenBody(
+    lines: string[],
+    startIndex: number,
+    screenId: string
+  ): BlockResult {
     const screenChildren: MarkdownNode[] = [];
     let i = startIndex + 1;
     let depth = 1;
+    let implicitlyClosed = false;
 
     // Parse screen content until we find the matching closing ]
     while (i < lines.length && depth > 0) {
@@ -188,6 +426,13 @@ export class MarkdownParser {
         }
       }
 
+      // A card closer inside a screen closes an enclosing card (leaving the
+      // screen unclosed) or, mismatched, the screen itself
+      if (screenLine === "--]") {
+        implicitlyClosed = this.reportMismatchedCloser(lines, i, startIndex);
+        break;
+      }
+
       // Check for table (line with pipes starting with |)
       if (screenLine.includes("|") && screenLine.trim().startsWith("|")) {
         const result = this.parseTable(lines, i, "]");
@@ -196,6 +441,23 @@ export class MarkdownParser {
         continue;
       }
 
+      // Check for list (- item or 1. item)
+      if (LIST_ITEM.test(screenLine.trim())) {
+        const result = this.parseList(lines, i);
+        screenChildren.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
+      // Check for nested plugin block opening
+      const nestedBlockRule = this.matchBlockRule(screenLine);
+      if (nestedBlockRule) {
+        const result = this.parsePluginBlock(lines, i, nestedBlockRule.rule, nestedBlockRule.match);
+        screenChildren.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
       // Check for nested card opening
       if (screenLine.match(/^\[--\s*(.*)$/)) {
         const nestedTitle = screenLine.match(/^\[--\s*(.*)$/)?.[1] || undefined;
@@ -205,6 +467,39 @@ export class MarkdownParser {
         continue;
       }
 
+      // Check for nested screen (only valid directly inside a workflow)
+      const nestedScreenMatch = screenLine.match(/^\[screen\s+(.+)$/);
+      if (nestedScreenMatch) {
+        // The next screen of the workflow starts here, so this one was never closed
+        if (this.openBlocks[this.openBlocks.length - 2]?.kind === "workflow") {
+          this.reportUnclosed(lines, startIndex);
+          implicitlyClosed = true;
+          break;
+        }
+
+        const result = this.parseStandaloneScreen(lines, i, nestedScreenMatch[1].trim());
+        screenChildren.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
+      // Check for nested tabs opening
+      if (TABS_OPENER.test(screenLine)) {
+        const result = this.parseTabs(lines, i);
+        screenChildren.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
+      // Check for nested tab (only valid directly inside tabs)
+      const nestedTabLabel = this.tabLabel(screenLine);
+      if (nestedTabLabel !== undefined) {
+        const result = this.parseStandaloneTab(lines, i, nestedTabLabel);
+        screenChildren.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
       // Check for nested grid opening
       if (screenLine.match(/^\[grid\s+(.*)$/)) {
         const nestedConfig = screenLine.match(/^\[grid\s+(.*)$/)?.[1] || '';
@@ -224,7 +519,7 @@ export class MarkdownParser {
       }
 
       if (screenLine) {
-        const childNode = this.parseLine(screenLine);
+        const childNode = this.parseLine(screenLine, this.lineStart(lines, i));
         if (childNode) {
           screenChildren.push(childNode);
         }
@@ -233,24 +528,44 @@ export class MarkdownParser {
     }
 
     return {
-      node: {
-        type: "screen",
-        id: screenId,
-        children: screenChildren,
-      },
-      nextIndex: i + 1,
+      node: this.located(
+        {
+          type: "screen",
+          id: screenId,
+          children: screenChildren,
+        },
+        this.lineStart(lines, startIndex),
+        this.lineEnd(lines, implicitlyClosed ? i - 1 : i)
+      ),
+      nextIndex: implicitlyClosed ? i : i + 1,
     };
   }
 
+  private parseStandaloneScreen(
+    lines: string[],
+    startIndex: number,
+    screenId: string
+  ): { node: MarkdownNode; nextIndex: number } {
+    this.report(
+      "screen-outside-workflow",
+      "warning",
+      `Screen "${this.splitAttributeBlock(screenId).text}" is not directly inside a [workflow block`,
+      this.lineStart(lines, startIndex),
+      this.lineEnd(lines, startIndex)
+    );
+    return this.parseScreen(lines, startIndex, screenId);
+  }
+
   private parseTable(
     lines: string[],
     startIndex: number,
     closingDelimiter?: string
   ): { node: MarkdownNode; nextIndex: number } {
     const line = this.options.preserveWhitespace ? lines[startIndex] : lines[startIndex].trim();
-    const headers = line
+    // Cells split on unescaped pipes
+    const headers = this.maskEscapes(line)
       .split("|")
-      .map((h) => h.trim())
+      .map((h) => this.literal(h.trim()))
       .filter((h) => h.length > 0);
 
     let i = startIndex + 1;
@@ -273,24 +588,111 @@ export class MarkdownParser {
         : lines[i].trim();
 
       // Stop at closing delimiter or empty line or non-table line
-      if (!rowLine || !rowLine.includes("|") || (closingDelimiter && rowLine === closingDelimiter)) {
+      const maskedRow = this.maskEscapes(rowLine);
+      if (!rowLine || !maskedRow.includes("|") || (closingDelimiter && rowLine === closingDelimiter)) {
         break;
       }
 
-      const cells = rowLine
+      const cells = maskedRow
         .split("|")
-        .map((c) => c.trim())
+        .map((c) => this.literal(c.trim()))
         .filter((c) => c.length > 0);
+      if (cells.length !== headers.length) {
+        this.report(
+          "table-column-mismatch",
+          "warning",
+          `Table row has ${cells.length} cell(s) but the header has ${headers.length}`,
+          this.lineStart(lines, i),
+          this.lineEnd(lines, i)
+        );
+      }
       rows.push(cells);
       i++;
     }
 
     return {
-      node: {
-        type: "table",
-        headers,
-        rows,
-      },
+      node: this.located(
+        {
+          type: "table",
+          headers,
+          rows,
+        },
+        this.lineStart(lines, startIndex),
+        this.lineEnd(lines, i - 1)
+      ),
+      nextIndex: i,
+    };
+  }
+
+  /**
+   * Parse a list from its first item. An item indented deeper than the
+   * list's first one starts a list nested in the item before it; the list
+   * ends at a line that is not an item, an item indented less than its
+   * first one, or an item with the other kind of marker.
+   */
+  private parseList(lines: string[], startIndex: number): BlockResult {
+    const indent = this.indentation(lines[startIndex]);
+    const first = lines[startIndex].trim().match(LIST_ITEM)!;
+    const ordered = first[1] !== undefined;
+    const start = ordered ? Number(first[1]) : 1;
+    const items: MarkdownNode[] = [];
+    let i = startIndex;
+
+    while (i < lines.length) {
+      const match = lines[i].trim().match(LIST_ITEM);
+      const itemIndent = this.indentation(lines[i]);
+      if (!match || itemIndent < indent) {
+        break;
+      }
+
+      if (itemIndent > indent) {
+        const item = items[items.length - 1];
+        const result = this.parseList(lines, i);
+        item.children!.push(result.node);
+        const itemRange = this.ranges.get(item);
+        const listRange = this.ranges.get(result.node);
+        if (itemRange && listRange) {
+          itemRange.end = listRange.end;
+        }
+        i = result.nextIndex;
+        continue;
+      }
+
+      if ((match[1] !== undefined) !== ordered) {
+        break;
+      }
+
+      const textStart = { line: i + 1, column: itemIndent + match[0].length - match[2].length + 1 };
+      // A trailing attribute block applies to the item (- Overview {#overview})
+      const attributeMatch = this.maskEscapes(match[2]).match(ATTRIBUTE_BLOCK);
+      const block = attributeMatch?.[1] !== undefined ? this.unmask(attributeMatch[2]) : undefined;
+      const hasBlock = block !== undefined && this.isAttributeList(block);
+      const item: MarkdownNode = this.located(
+        {
+          type: "listItem",
+          children: this.parseInlineEmphasis(hasBlock ? this.unmask(attributeMatch![1]) : match[2], textStart),
+        },
+        this.lineStart(lines, i),
+        this.lineEnd(lines, i)
+      );
+      if (hasBlock) {
+        this.applyAttributes(item, block, this.offset(textStart, match[2].length - 1 - block.length));
+      }
+      items.push(item);
+      i++;
+    }
+
+    return {
+      node: this.located(
+        {
+          type: "list",
+          ordered,
+          ...(start !== 1 && { start }),
+          children: items,
+        },
+        this.lineStart(lines, startIndex),
+        this.lineEnd(lines, i - 1)
+      ),
       nextIndex: i,
     };
   }
@@ -299,10 +701,22 @@ export class MarkdownParser {
     lines: string[],
     startIndex: number,
     title: string | undefined
-  ): { node: MarkdownNode; nextIndex: number } {
+  ): BlockResult {
+    const cardTitle = title && this.splitAttributeBlock(title).text;
+    return this.parseBlock("card", lines, startIndex, (blockLines) =>
+      this.parseCardBody(blockLines, startIndex, cardTitle || undefined)
+    );
+  }
+
+  private parseCardBody(
+    lines: string[],
+    startIndex: number,
+    title: string | undefined
+  ): BlockResult {
     const cardChildren: MarkdownNode[] = [];
     let i = startIndex + 1;
     let depth = 1;
+    let implicitlyClosed = false;
 
     // Parse card content until we find the matching closing --]
     while (i < lines.length && depth > 0) {
@@ -316,6 +730,13 @@ export class MarkdownParser {
         }
       }
 
+      // A block closer inside a card closes an enclosing grid, div, screen
+      // or workflow (leaving the card unclosed) or, mismatched, the card itself
+      if (cardLine === "]") {
+        implicitlyClosed = this.reportMismatchedCloser(lines, i, startIndex);
+        break;
+      }
+
       // Check for table (line with pipes starting with |)
       if (cardLine.includes("|") && cardLine.trim().startsWith("|")) {
         const result = this.parseTable(lines, i, "--]");
@@ -324,6 +745,23 @@ export class MarkdownParser {
         continue;
       }
 
+      // Check for list (- item or 1. item)
+      if (LIST_ITEM.test(cardLine.trim())) {
+        const result = this.parseList(lines, i);
+        cardChildren.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
+      // Check for nested plugin block opening
+      const nestedBlockRule = this.matchBlockRule(cardLine);
+      if (nestedBlockRule) {
+        const result = this.parsePluginBlock(lines, i, nestedBlockRule.rule, nestedBlockRule.match);
+        cardChildren.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
       // Check for nested card opening (must be before div check)
       if (cardLine.match(/^\[--\s*(.*)$/)) {
         const nestedTitle = cardLine.match(/^\[--\s*(.*)$/)?.[1] || undefined;
@@ -333,6 +771,32 @@ export class MarkdownParser {
         continue;
       }
 
+      // Check for nested screen (only valid directly inside a workflow)
+      const nestedScreenMatch = cardLine.match(/^\[screen\s+(.+)$/);
+      if (nestedScreenMatch) {
+        const result = this.parseStandaloneScreen(lines, i, nestedScreenMatch[1].trim());
+        cardChildren.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
+      // Check for nested tabs opening
+      if (TABS_OPENER.test(cardLine)) {
+        const result = this.parseTabs(lines, i);
+        cardChildren.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
+      // Check for nested tab (only valid directly inside tabs)
+      const nestedTabLabel = this.tabLabel(cardLine);
+      if (nestedTabLabel !== undefined) {
+        const result = this.parseStandaloneTab(lines, i, nestedTabLabel);
+        cardChildren.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
       // Check for nested grid opening
       if (cardLine.match(/^\[grid\s+(.*)$/)) {
         const nestedConfig = cardLine.match(/^\[grid\s+(.*)$/)?.[1] || '';
@@ -352,7 +816,7 @@ export class MarkdownParser {
       }
 
       if (cardLine) {
-        const childNode = this.parseLine(cardLine);
+        const childNode = this.parseLine(cardLine, this.lineStart(lines, i));
         if (childNode) {
           cardChildren.push(childNode);
         }
@@ -360,25 +824,53 @@ export class MarkdownParser {
       i++;
     }
 
+    // The title follows the [-- of the opening line
+    const opener = this.options.preserveWhitespace ? lines[startIndex] : lines[startIndex].trim();
+    const titleStart = this.offset(
+      this.lineStart(lines, startIndex),
+      opener.match(/^\s*\[--\s*/)?.[0].length ?? 0
+    );
+
     return {
-      node: {
-        type: "card",
-        titleChildren: title ? this.parseInlineEmphasis(title) : undefined,
-        children: cardChildren,
-      },
-      nextIndex: i + 1,
+      node: this.located(
+        {
+          type: "card",
+          titleChildren: title ? this.parseInlineEmphasis(title, titleStart) : undefined,
+          children: cardChildren,
+        },
+        this.lineStart(lines, startIndex),
+        this.lineEnd(lines, implicitlyClosed ? i - 1 : i)
+      ),
+      nextIndex: implicitlyClosed ? i : i + 1,
     };
   }
 
   private parseContainer(
     lines: string[],
     startIndex: number,
-    type: 'grid' | 'div',
+    type: 'grid' | 'div' | 'tab',
     config: string
-  ): { node: MarkdownNode; nextIndex: number } {
+  ): BlockResult {
+    const containerConfig = this.splitAttributeBlock(config).text;
+    return this.parseBlock(type, lines, startIndex, (blockLines) =>
+      this.parseContainerBody(blockLines, startIndex, type, containerConfig)
+    );
+  }
+
+  private parseContainerBody(
+    lines: string[],
+    startIndex: number,
+    type: 'grid' | 'div' | 'tab',
+    config: string
+  ): BlockResult {
     const containerChildren: MarkdownNode[] = [];
     let i = startIndex + 1;
     let depth = 1;
+    let implicitlyClosed = false;
+
+    if (type === 'div') {
+      this.checkContainerKeyword(lines, startIndex, config);
+    }
 
     // Parse container content until we find the matching closing ]
     while (i < lines.length && depth > 0) {
@@ -392,6 +884,13 @@ export class MarkdownParser {
         }
       }
 
+      // A card closer inside a grid or div closes an enclosing card (leaving
+      // the container unclosed) or, mismatched, the container itself
+      if (containerLine === "--]") {
+        implicitlyClosed = this.reportMismatchedCloser(lines, i, startIndex);
+        break;
+      }
+
       // Check for table (line with pipes starting with |)
       if (containerLine.includes("|") && containerLine.trim().startsWith("|")) {
         const result = this.parseTable(lines, i, "]");
@@ -400,6 +899,23 @@ export class MarkdownParser {
         continue;
       }
 
+      // Check for list (- item or 1. item)
+      if (LIST_ITEM.test(containerLine.trim())) {
+        const result = this.parseList(lines, i);
+        containerChildren.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
+      // Check for nested plugin block opening
+      const nestedBlockRule = this.matchBlockRule(containerLine);
+      if (nestedBlockRule) {
+        const result = this.parsePluginBlock(lines, i, nestedBlockRule.rule, nestedBlockRule.match);
+        containerChildren.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
       // Check for nested card opening (must be before div check)
       if (containerLine.match(/^\[--\s*(.*)$/)) {
         const nestedTitle = containerLine.match(/^\[--\s*(.*)$/)?.[1] || undefined;
@@ -409,6 +925,39 @@ export class MarkdownParser {
         continue;
       }
 
+      // Check for nested screen (only valid directly inside a workflow)
+      const nestedScreenMatch = containerLine.match(/^\[screen\s+(.+)$/);
+      if (nestedScreenMatch) {
+        const result = this.parseStandaloneScreen(lines, i, nestedScreenMatch[1].trim());
+        containerChildren.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
+      // Check for nested tabs opening
+      if (TABS_OPENER.test(containerLine)) {
+        const result = this.parseTabs(lines, i);
+        containerChildren.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
+      // Check for nested tab (only valid directly inside tabs)
+      const nestedTabLabel = this.tabLabel(containerLine);
+      if (nestedTabLabel !== undefined) {
+        // The next tab starts here, so this one was never closed
+        if (type === "tab" && this.openBlocks[this.openBlocks.length - 2]?.kind === "tabs") {
+          this.reportUnclosed(lines, startIndex);
+          implicitlyClosed = true;
+          break;
+        }
+
+        const result = this.parseStandaloneTab(lines, i, nestedTabLabel);
+        containerChildren.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
       // Check for nested grid opening
       if (containerLine.match(/^\[grid\s+(.*)$/)) {
         const nestedConfig = containerLine.match(/^\[grid\s+(.*)$/)?.[1] || '';
@@ -428,7 +977,7 @@ export class MarkdownParser {
       }
 
       if (containerLine) {
-        const childNode = this.parseLine(containerLine);
+        const childNode = this.parseLine(containerLine, this.lineStart(lines, i));
         if (childNode) {
           containerChildren.push(childNode);
         }
@@ -436,361 +985,1573 @@ export class MarkdownParser {
       i++;
     }
 
-    const node: MarkdownNode = {
-      type,
-      children: containerChildren,
-    };
+    const node: MarkdownNode = this.located(
+      {
+        type,
+        children: containerChildren,
+      },
+      this.lineStart(lines, startIndex),
+      this.lineEnd(lines, implicitlyClosed ? i - 1 : i)
+    );
 
     if (type === 'grid') {
       node.gridConfig = config;
     } else if (type === 'div' && config) {
       node.className = config;
+    } else if (type === 'tab') {
+      node.label = this.literal(this.maskEscapes(config));
     }
 
     return {
       node,
-      nextIndex: i + 1,
+      nextIndex: implicitlyClosed ? i : i + 1,
     };
   }
 
-  private parseLine(line: string): MarkdownNode | null {
-    // Parse headers (# H1, ## H2, etc.)
-    const headerMatch = line.match(/^(#{1,6})\s+(.+)$/);
-    if (headerMatch) {
+  private parseTabs(lines: string[], startIndex: number): BlockResult {
+    return this.parseBlock("tabs", lines, startIndex, (blockLines) =>
+      this.parseTabsBody(blockLines, startIndex)
+    );
+  }
+
+  /**
+   * Parse the [tab sections of a tabs block, each parsed like a container
+   */
+  private parseTabsBody(lines: string[], startIndex: number): BlockResult {
+    const tabs: MarkdownNode[] = [];
+    let i = startIndex + 1;
+    let implicitlyClosed = false;
+
+    while (i < lines.length) {
+      const tabsLine = this.options.preserveWhitespace ? lines[i] : lines[i].trim();
+
+      if (tabsLine === "]") {
+        break;
+      }
+
+      // A card closer inside tabs closes an enclosing card (leaving the tabs
+      // unclosed) or, mismatched, the tabs themselves
+      if (tabsLine === "--]") {
+        implicitlyClosed = this.reportMismatchedCloser(lines, i, startIndex);
+        break;
+      }
+
+      const label = this.tabLabel(tabsLine);
+      if (label !== undefined) {
+        const result = this.parseContainer(lines, i, "tab", label);
+        tabs.push(result.node);
+        i = result.nextIndex;
+        continue;
+      }
+
+      if (tabsLine) {
+        this.report(
+          "content-outside-tab",
+          "warning",
+          `Tabs content must be inside a [tab block; ignoring "${tabsLine}"`,
+          this.lineStart(lines, i),
+          this.lineEnd(lines, i)
+        );
+      }
+      i++;
+    }
+
+    return {
+      node: this.located(
+        {
+          type: "tabs",
+          children: tabs,
+        },
+        this.lineStart(lines, startIndex),
+        this.lineEnd(lines, implicitlyClosed ? i - 1 : i)
+      ),
+      nextIndex: implicitlyClosed ? i : i + 1,
+    };
+  }
+
+  private parseStandaloneTab(lines: string[], startIndex: number, label: string): BlockResult {
+    this.report(
+      "tab-outside-tabs",
+      "warning",
+      `Tab "${this.splitAttributeBlock(label).text}" is not directly inside a [tabs block`,
+      this.lineStart(lines, startIndex),
+      this.lineEnd(lines, startIndex)
+    );
+    return this.parseContainer(lines, startIndex, "tab", label);
+  }
+
+  /**
+   * The label of a tab opener ([tab Account), or undefined if the line is
+   * not one. Like a div opener, it has no unescaped ] ([tab Account] is a
+   * button).
+   */
+  private tabLabel(line: string): string | undefined {
+    const match = line.match(TAB_OPENER);
+    return match && !this.maskEscapes(line).includes("]") ? match[1].trim() : undefined;
+  }
+
+  /**
+   * The plugin block rule whose opener matches a line, if any
+   */
+  private matchBlockRule(
+    line: string
+  ): { rule: BlockRule; match: RegExpMatchArray } | undefined {
+    const opener = this.splitAttributeBlock(line.trim()).text;
+    for (const rule of this.pluginRules("blocks")) {
+      const match = opener.match(rule.opener);
+      if (match) {
+        return { rule, match };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Parse a plugin block: its content is parsed like that of a card or grid,
+   * depending on its closer, and handed to the rule to build the node
+   */
+  private parsePluginBlock(
+    lines: string[],
+    startIndex: number,
+    rule: BlockRule,
+    match: RegExpMatchArray
+  ): BlockResult {
+    const closer = rule.closer ?? "]";
+    const block: OpenBlock = { kind: "block", name: rule.name, closer };
+
+    return this.parseBlock(block, lines, startIndex, (blockLines) => {
+      const body =
+        closer === "--]"
+          ? this.parseCardBody(blockLines, startIndex, undefined)
+          : this.parseContainerBody(blockLines, startIndex, "div", "");
+      const node = rule.parse(
+        match,
+        body.node.children || [],
+        this.pluginContext(lines[startIndex].trim(), this.lineStart(lines, startIndex))
+      );
+      const range = this.ranges.get(body.node);
+
       return {
-        type: "header",
-        level: headerMatch[1].length,
-        children: this.parseInlineEmphasis(headerMatch[2]),
+        node: range ? this.located(node, range.start, range.end) : node,
+        nextIndex: body.nextIndex,
       };
+    });
+  }
+
+  /**
+   * The rules of one kind from all plugins, in plugin order
+   */
+  private pluginRules<Key extends "lines" | "blocks" | "inlines">(
+    key: Key
+  ): NonNullable<ParserPlugin[Key]> {
+    return (this.options.plugins || []).flatMap(
+      (plugin): unknown[] => plugin[key] || []
+    ) as NonNullable<ParserPlugin[Key]>;
+  }
+
+  /**
+   * Helpers for a plugin parsing `source`, which starts at `start`. Inline
+   * text handed back is located within the source where it occurs.
+   */
+  private pluginContext(source: string, start: SourcePosition): PluginContext {
+    return {
+      parseInline: (text) =>
+        this.parseInlineEmphasis(text, this.offset(start, Math.max(source.indexOf(text), 0))),
+    };
+  }
+
+  private parseLine(line: string, start: SourcePosition): MarkdownNode | null {
+    const end = this.offset(start, line.length);
+    // Built-in syntax is matched with escaped characters masked
+    const masked = this.maskEscapes(line);
+
+    // Parse a trailing attribute block: a field annotation on fields
+    // (Email ___ {email required}), #id .class key=value on anything else
+    const attributeMatch = masked.match(ATTRIBUTE_BLOCK);
+    if (attributeMatch && attributeMatch[1] !== undefined) {
+      const [, content, maskedBlock] = attributeMatch;
+      const block = this.unmask(maskedBlock);
+      const blockStart = this.offset(start, line.length - 1 - block.length);
+      const node = this.parseLine(this.unmask(content), start);
+      // On a line of several fields the block belongs to the last one
+      const field = node?.type === "container" && node.children?.every((child) => FIELD_TYPES.includes(child.type))
+        ? node.children[node.children.length - 1]
+        : node;
+
+      if (node && field && FIELD_TYPES.includes(field.type)) {
+        this.applyFieldAnnotation(field, block, blockStart);
+        return this.located(node, start, end);
+      }
+      if (node && this.isAttributeList(block)) {
+        this.applyAttributes(node, block, blockStart);
+        return this.located(node, start, end);
+      }
+    }
+
+    // Plugin line syntax takes precedence over the built-in syntax
+    for (const rule of this.pluginRules("lines")) {
+      const match = line.match(rule.pattern);
+      const node = match && rule.parse(match, this.pluginContext(line, start));
+      if (node) {
+        return this.located(node, start, end);
+      }
+    }
+
+    // Parse headers (# H1, ## H2, etc.)
+    const headerMatch = masked.match(/^(#{1,6})\s+(.+)$/);
+    if (headerMatch) {
+      const textOffset = line.length - headerMatch[2].length;
+      return this.located(
+        {
+          type: "header",
+          level: headerMatch[1].length,
+          children: this.parseInlineEmphasis(
+            this.unmask(headerMatch[2]),
+            this.offset(start, textOffset)
+          ),
+        },
+        start,
+        end
+      );
     }
 
     // Parse multiple form fields on one line (inputs, textareas, dropdowns, checkboxes)
     // This must be checked BEFORE single field patterns
-    const fieldPattern = /(.+?)\s+(___|\|___\||__\*|__>(?:\s*\[[^\]]+\])?|__\[\])/g;
-    const fieldMatches = [...line.matchAll(fieldPattern)];
+    const fieldPattern = /(.+?)\s+(___|\|___\||__\*|__>(?:\s*\[[^\]]+\])?|__\[[xX]?\])(?:\s+\{((?:[^{}"]|"(?:[^"\\]|\\.)*")*)\})?/g;
+    const fieldMatches = [...masked.matchAll(fieldPattern)];
 
     if (fieldMatches.length > 1) {
-      return {
-        type: "container",
-        children: fieldMatches.map((match) => {
-          const label = match[1].trim();
-          const marker = match[2];
-
-          if (marker === '__*') {
-            return {
+      const fields = fieldMatches.map((match) => {
+        const label = this.literal(match[1].trim());
+        const marker = match[2];
+        const matchIndex = match.index ?? 0;
+        const fieldStart = this.offset(
+          start,
+          matchIndex + match[1].length - match[1].trimStart().length
+        );
+        const fieldEnd = this.offset(start, matchIndex + match[0].length);
+
+        if (marker === '__*') {
+          return this.located(
+            {
               type: "input",
               label,
               inputType: "password",
-            } as MarkdownNode;
-          } else if (marker === '|___|') {
-            return {
+            } as MarkdownNode,
+            fieldStart,
+            fieldEnd
+          );
+        } else if (marker === '|___|') {
+          return this.located(
+            {
               type: "textarea",
               label,
-            } as MarkdownNode;
-          } else if (marker === '__[]') {
-            return {
-              type: "checkbox",
+            } as MarkdownNode,
+            fieldStart,
+            fieldEnd
+          );
+        } else if (marker.startsWith('__[')) {
+          return this.located(
+            this.withInlineLabel(
+              {
+                type: "checkbox",
+                label: this.unmask(match[1].trim()),
+                ...(marker !== '__[]' && { checked: true }),
+              },
+              fieldStart
+            ),
+            fieldStart,
+            fieldEnd
+          );
+        } else if (marker.startsWith('__>')) {
+          // Handle dropdown with or without options
+          const optionsMatch = marker.match(/\[([^\]]+)\]/);
+          if (optionsMatch) {
+            const options = this.parseOptions(
               label,
-            } as MarkdownNode;
-          } else if (marker.startsWith('__>')) {
-            // Handle dropdown with or without options
-            const optionsMatch = marker.match(/\[([^\]]+)\]/);
-            if (optionsMatch) {
-              const options = optionsMatch[1]
-                .split(",")
-                .map((opt) => opt.trim())
-                .filter((opt) => opt.length > 0);
-              return {
+              optionsMatch[1],
+              fieldStart,
+              fieldEnd
+            );
+            return this.located(
+              {
                 type: "dropdown",
                 label,
                 options,
-              } as MarkdownNode;
-            } else {
-              return {
+              } as MarkdownNode,
+              fieldStart,
+              fieldEnd
+            );
+          } else {
+            return this.located(
+              {
                 type: "dropdown",
                 label,
-              } as MarkdownNode;
-            }
-          } else { // ___
-            return {
+              } as MarkdownNode,
+              fieldStart,
+              fieldEnd
+            );
+          }
+        } else { // ___
+          return this.located(
+            {
               type: "input",
               label,
               inputType: "text",
-            } as MarkdownNode;
-          }
-        }),
-      };
+            } as MarkdownNode,
+            fieldStart,
+            fieldEnd
+          );
+        }
+      });
+
+      fieldMatches.forEach((match, i) => {
+        const annotation = match[3] && this.unmask(match[3]);
+        if (annotation !== undefined) {
+          const annotationOffset =
+            (match.index ?? 0) + match[0].length - 1 - annotation.length;
+          this.applyFieldAnnotation(
+            fields[i],
+            annotation,
+            this.offset(start, annotationOffset)
+          );
+        }
+      });
+
+      return this.located({ type: "container", children: fields }, start, end);
     }
 
     // Parse password inputs (Label __*)
-    const passwordMatch = line.match(/^(.+?)\s+__\*$/);
+    const passwordMatch = masked.match(/^(.+?)\s+__\*$/);
     if (passwordMatch) {
-      return {
-        type: "input",
-        label: passwordMatch[1],
-        inputType: "password",
-      };
+      return this.located(
+        {
+          type: "input",
+          label: this.literal(passwordMatch[1]),
+          inputType: "password",
+        },
+        start,
+        end
+      );
     }
 
     // Parse textarea (Label |___|)
-    const textareaMatch = line.match(/^(.+?)\s+\|___\|$/);
+    const textareaMatch = masked.match(/^(.+?)\s+\|___\|$/);
     if (textareaMatch) {
-      return {
-        type: "textarea",
-        label: textareaMatch[1],
-      };
+      return this.located(
+        {
+          type: "textarea",
+          label: this.literal(textareaMatch[1]),
+        },
+        start,
+        end
+      );
     }
 
     // Parse text inputs (Label ___)
-    const inputMatch = line.match(/^(.+?)\s+___$/);
+    const inputMatch = masked.match(/^(.+?)\s+___$/);
     if (inputMatch) {
-      return {
-        type: "input",
-        label: inputMatch[1],
-        inputType: "text",
-      };
+      return this.located(
+        {
+          type: "input",
+          label: this.literal(inputMatch[1]),
+          inputType: "text",
+        },
+        start,
+        end
+      );
     }
 
-    // Parse checkbox (Label __[])
-    const checkboxMatch = line.match(/^(.+?)\s+__\[\]$/);
+    // Parse checkbox (Label __[], pre-checked Label __[x])
+    const checkboxMatch = masked.match(/^(.+?)\s+__\[([xX]?)\]$/);
     if (checkboxMatch) {
-      return {
-        type: "checkbox",
-        label: checkboxMatch[1],
-      };
+      return this.located(
+        this.withInlineLabel(
+          {
+            type: "checkbox",
+            label: this.unmask(checkboxMatch[1]),
+            ...(checkboxMatch[2] && { checked: true }),
+          },
+          start
+        ),
+        start,
+        end
+      );
     }
 
     // Parse radio group (Label __() [option1, option2, option3])
-    const radioGroupMatch = line.match(/^(.+?)\s+__\(\)\s+\[(.+?)\]$/);
+    const radioGroupMatch = masked.match(/^(.+?)\s+__\(\)\s+\[(.+?)\]$/);
     if (radioGroupMatch) {
-      const options = radioGroupMatch[2]
-        .split(",")
-        .map((opt) => opt.trim())
-        .filter((opt) => opt.length > 0);
-      return {
-        type: "radiogroup",
-        label: radioGroupMatch[1],
-        options,
-      };
+      const options = this.parseOptions(
+        this.literal(radioGroupMatch[1]),
+        radioGroupMatch[2],
+        start,
+        end
+      );
+      return this.located(
+        {
+          type: "radiogroup",
+          label: this.literal(radioGroupMatch[1]),
+          options,
+        },
+        start,
+        end
+      );
     }
 
     // Parse dropdowns with options (Label __> [option1, option2, option3])
-    const dropdownWithOptionsMatch = line.match(/^(.+?)\s+__>\s+\[(.+?)\]$/);
+    const dropdownWithOptionsMatch = masked.match(/^(.+?)\s+__>\s+\[(.+?)\]$/);
     if (dropdownWithOptionsMatch) {
-      const options = dropdownWithOptionsMatch[2]
-        .split(",")
-        .map((opt) => opt.trim())
-        .filter((opt) => opt.length > 0);
-      return {
-        type: "dropdown",
-        label: dropdownWithOptionsMatch[1],
-        options,
-      };
+      const options = this.parseOptions(
+        this.literal(dropdownWithOptionsMatch[1]),
+        dropdownWithOptionsMatch[2],
+        start,
+        end
+      );
+      return this.located(
+        {
+          type: "dropdown",
+          label: this.literal(dropdownWithOptionsMatch[1]),
+          options,
+        },
+        start,
+        end
+      );
     }
 
     // Parse dropdowns without options (Label __>)
-    const dropdownMatch = line.match(/^(.+?)\s+__>$/);
+    const dropdownMatch = masked.match(/^(.+?)\s+__>$/);
     if (dropdownMatch) {
-      return {
-        type: "dropdown",
-        label: dropdownMatch[1],
-      };
+      return this.located(
+        {
+          type: "dropdown",
+          label: this.literal(dropdownMatch[1]),
+        },
+        start,
+        end
+      );
+    }
+
+    // Recover dropdowns and radio groups whose options list is missing the
+    // closing ] (Label __> [a, b) or is empty (Label __> [], Label __())
+    const malformedOptionsMatch = masked.match(
+      /^(.+?)\s+__(>|\(\))\s*(?:\[([^\]]*)(\]?))?$/
+    );
+    if (malformedOptionsMatch) {
+      const [, maskedLabel, marker, list = "", closingBracket] = malformedOptionsMatch;
+      const label = this.literal(maskedLabel);
+      let options: string[];
+
+      if (list && !closingBracket) {
+        this.report(
+          "malformed-options",
+          "warning",
+          `Options for "${label}" are missing their closing ]`,
+          start,
+          end
+        );
+        options = this.parseOptions(label, list, start, end);
+      } else {
+        options = this.parseOptions(label, "", start, end);
+      }
+
+      return this.located(
+        marker === ">"
+          ? { type: "dropdown", label, ...(options.length > 0 && { options }) }
+          : { type: "radiogroup", label, options },
+        start,
+        end
+      );
     }
 
     // Parse image (![alt text](url))
-    const imageMatch = line.match(/^!\[([^\]]*)\]\(([^)]+)\)$/);
+    const imageMatch = masked.match(/^!\[([^\]]*)\]\(([^)]+)\)$/);
     if (imageMatch) {
-      return {
-        type: "image",
-        alt: imageMatch[1],
-        src: imageMatch[2],
-      };
+      return this.located(
+        {
+          type: "image",
+          alt: this.literal(imageMatch[1]),
+          src: this.literal(imageMatch[2]),
+        },
+        start,
+        end
+      );
     }
 
     // Parse multiple buttons on one line ([btn1][(btn2)])
-    const multiButtonMatch = line.match(/^(\[\(?[^\[\]]+\)?\]\s*)+$/);
+    const multiButtonMatch = masked.match(/^(\[\(?[^\[\]]+\)?\]\s*)+$/);
     if (multiButtonMatch) {
-      const buttons = line.match(/\[(\(?)[^\[\]]+?(\)?)\]/g);
-      if (buttons && buttons.length > 1) {
-        return {
-          type: "container",
-          children: buttons.map((btn) => {
-            // Check for navigation syntax: [(text) -> target] or [text -> target]
-            const navMatch = btn.match(/\[(\(?)(.+?)(\)?)\s*->\s*([^\]]+)\]/);
-            if (navMatch) {
-              const isDefault = navMatch[1] === "(" && navMatch[3] === ")";
-              const content = navMatch[2].trim();
-              const navigateTo = navMatch[4].trim();
-
-              return {
-                type: "button",
-                content,
-                variant: isDefault ? "default" : "outline",
-                navigateTo,
-              };
-            }
-
-            const innerMatch = btn.match(/\[(\(?)(.+?)(\)?)\]/);
-            if (innerMatch) {
-              const isDefault = innerMatch[1] === "(" && innerMatch[3] === ")";
-              const content = innerMatch[2];
-
-              return {
-                type: "button",
-                content,
-                variant: isDefault ? "default" : "outline",
-              };
-            }
-            return {
-              type: "button",
-              content: btn.slice(1, -1),
-              variant: "outline",
-            };
-          }),
-        };
+      const buttons = [...masked.matchAll(/\[(\(?)[^\[\]]+?(\)?)\]/g)];
+      if (buttons.length > 1) {
+        return this.located(
+          {
+            type: "container",
+            children: buttons.map((buttonMatch) => {
+              const btn = buttonMatch[0];
+              const buttonStart = this.offset(start, buttonMatch.index ?? 0);
+              const buttonEnd = this.offset(buttonStart, btn.length);
+
+              // Check for navigation syntax: [(text) -> target] or [text -> target]
+              const navMatch = btn.match(/\[(\(?)(.+?)(\)?)\s*->\s*([^\]]+)\]/);
+              if (navMatch) {
+                const isDefault = navMatch[1] === "(" && navMatch[3] === ")";
+                const content = this.literal(navMatch[2].trim());
+                const navigateTo = this.literal(navMatch[4].trim());
+
+                return this.located(
+                  {
+                    type: "button",
+                    content,
+                    variant: isDefault ? "default" : "outline",
+                    navigateTo,
+                  },
+                  buttonStart,
+                  buttonEnd
+                );
+              }
+
+              const innerMatch = btn.match(/\[(\(?)(.+?)(\)?)\]/);
+              if (innerMatch) {
+                const isDefault = innerMatch[1] === "(" && innerMatch[3] === ")";
+                const content = this.literal(innerMatch[2]);
+
+                return this.located(
+                  {
+                    type: "button",
+                    content,
+                    variant: isDefault ? "default" : "outline",
+                  },
+                  buttonStart,
+                  buttonEnd
+                );
+              }
+              return this.located(
+                {
+                  type: "button",
+                  content: this.literal(btn.slice(1, -1)),
+                  variant: "outline",
+                },
+                buttonStart,
+                buttonEnd
+              );
+            }),
+          },
+          start,
+          end
+        );
       }
     }
 
     // Parse default button with navigation [(button text) -> target]
-    const defaultButtonNavMatch = line.match(/^\[\((.+?)\)\s*->\s*([^\]]+)\]$/);
+    const defaultButtonNavMatch = masked.match(/^\[\((.+?)\)\s*->\s*([^\]]+)\]$/);
     if (defaultButtonNavMatch) {
-      const content = defaultButtonNavMatch[1].trim();
-      const navigateTo = defaultButtonNavMatch[2].trim();
-
-      return {
-        type: "button",
-        content,
-        variant: "default",
-        navigateTo,
-      };
+      const content = this.literal(defaultButtonNavMatch[1].trim());
+      const navigateTo = this.literal(defaultButtonNavMatch[2].trim());
+
+      return this.located(
+        {
+          type: "button",
+          content,
+          variant: "default",
+          navigateTo,
+        },
+        start,
+        end
+      );
     }
 
     // Parse default button [(button text)] or [(button text) | classes]
-    const defaultButtonMatch = line.match(/^\[\((.+?)\)(?:\s*\|\s*(.+))?\]$/);
+    const defaultButtonMatch = masked.match(/^\[\((.+?)\)(?:\s*\|\s*(.+))?\]$/);
     if (defaultButtonMatch) {
-      const content = defaultButtonMatch[1];
-      const className = defaultButtonMatch[2]?.trim();
-
-      return {
-        type: "button",
-        content,
-        variant: "default",
-        ...(className && { className }),
-      };
+      const content = this.literal(defaultButtonMatch[1]);
+      const className = defaultButtonMatch[2] && this.literal(defaultButtonMatch[2].trim());
+
+      return this.located(
+        {
+          type: "button",
+          content,
+          variant: "default",
+          ...(className && { className }),
+        },
+        start,
+        end
+      );
     }
 
     // Parse outline button with navigation [button text -> target]
-    const buttonNavMatch = line.match(/^\[([^|]+?)\s*->\s*([^\]]+)\]$/);
+    const buttonNavMatch = masked.match(/^\[([^|]+?)\s*->\s*([^\]]+)\]$/);
     if (buttonNavMatch) {
-      const content = buttonNavMatch[1].trim();
-      const navigateTo = buttonNavMatch[2].trim();
+      const content = this.literal(buttonNavMatch[1].trim());
+      const navigateTo = this.literal(buttonNavMatch[2].trim());
+
+      return this.located(
+        {
+          type: "button",
+          content,
+          variant: "outline",
+          navigateTo,
+        },
+        start,
+        end
+      );
+    }
+
+    // Parse outline button [button text] or [button text | classes]
+    const buttonMatch = masked.match(/^\[([^|]+?)(?:\s*\|\s*(.+))?\]$/);
+    if (buttonMatch) {
+      const content = this.literal(buttonMatch[1].trim());
+      const className = buttonMatch[2] && this.literal(buttonMatch[2].trim());
+
+      return this.located(
+        {
+          type: "button",
+          content,
+          variant: "outline",
+          ...(className && { className }),
+        },
+        start,
+        end
+      );
+    }
+
+    // Plain text
+    return this.located(
+      {
+        type: "text",
+        children: this.parseInlineEmphasis(line, start),
+      },
+      start,
+      end
+    );
+  }
+
+  /**
+   * Parse inline text. Plugin syntax, escapes, code spans and links are read
+   * where they start; emphasis markers are paired as they close, each with
+   * the nearest open marker of its kind, so emphasis nests
+   * (*bold with _italic_ inside*). Markers left open inside a pair or without
+   * a partner are text, and an underscore inside a word (snake_case) neither
+   * opens nor closes italic.
+   */
+  private parseInlineEmphasis(text: string, start: SourcePosition): MarkdownNode[] {
+    const items: (MarkdownNode | Delimiter)[] = [];
+    // Indexes into items of the markers that may still be closed, innermost last
+    const openers: number[] = [];
+    let position = 0;
+
+    while (position < text.length) {
+      const token = this.matchInlineToken(text, position, start);
+      if (token) {
+        items.push(token.node);
+        position = token.end;
+        continue;
+      }
+
+      const delimiter = this.matchDelimiter(text, position);
+      if (delimiter) {
+        position += delimiter.marker.length;
+        const openerIndex = delimiter.canClose
+          ? openers.filter((index) => (items[index] as Delimiter).marker === delimiter.marker).pop()
+          : undefined;
+
+        // A pair needs content between its markers
+        if (openerIndex !== undefined && openerIndex < items.length - 1) {
+          const [opener, ...content] = items.splice(openerIndex);
+          openers.splice(openers.indexOf(openerIndex));
+          items.push(
+            this.emphasisNode(
+              opener as Delimiter,
+              delimiter,
+              this.mergeText(content.map((item) => this.inlineItem(item, start))),
+              start
+            )
+          );
+        } else {
+          if (delimiter.canOpen) {
+            openers.push(items.length);
+          }
+          items.push(delimiter);
+        }
+        continue;
+      }
 
+      // No marker here, consume until the nearest one; a marker that starts
+      // nothing is a character of text on its own
+      const nextMarker = this.nextInlineMarker(text, position);
+      const textEnd = nextMarker > position ? nextMarker : position + 1;
+      items.push(
+        this.located(
+          {
+            type: "text",
+            content: text.slice(position, textEnd),
+          },
+          this.offset(start, position),
+          this.offset(start, textEnd)
+        )
+      );
+      position = textEnd;
+    }
+
+    return this.mergeText(items.map((item) => this.inlineItem(item, start)));
+  }
+
+  /**
+   * Inline nodes with each run of adjacent plain text nodes (text between
+   * markers, escapes, unpaired markers) joined into one
+   */
+  private mergeText(nodes: MarkdownNode[]): MarkdownNode[] {
+    const merged: MarkdownNode[] = [];
+    for (const node of nodes) {
+      const previous = merged[merged.length - 1];
+      if (previous && this.isPlainText(previous) && this.isPlainText(node)) {
+        previous.content = `${previous.content}${node.content}`;
+        const range = this.ranges.get(previous);
+        const end = this.ranges.get(node)?.end;
+        if (range && end) {
+          range.end = end;
+        }
+      } else {
+        merged.push(node);
+      }
+    }
+    return merged;
+  }
+
+  private isPlainText(node: MarkdownNode): boolean {
+    return (
+      node.type === "text" &&
+      Object.keys(node).every((key) => key === "type" || key === "content" || key === "position")
+    );
+  }
+
+  /**
+   * Plugin inline syntax, a backslash escape, a code span or a link starting
+   * at a position of the text
+   */
+  private matchInlineToken(
+    text: string,
+    position: number,
+    start: SourcePosition
+  ): { node: MarkdownNode; end: number } | undefined {
+    const matchStart = this.offset(start, position);
+    const rest = text.slice(position);
+
+    // Try plugin inline syntax
+    const inlineMatch = this.matchInlineRule(text, position);
+    if (inlineMatch) {
+      const { rule, match } = inlineMatch;
+      const end = position + match[0].length;
       return {
-        type: "button",
-        content,
-        variant: "outline",
-        navigateTo,
+        node: this.located(
+          rule.parse(match, this.pluginContext(match[0], matchStart)),
+          matchStart,
+          this.offset(start, end)
+        ),
+        end,
       };
     }
 
-    // Parse outline button [button text] or [button text | classes]
-    const buttonMatch = line.match(/^\[([^|]+?)(?:\s*\|\s*(.+))?\]$/);
-    if (buttonMatch) {
-      const content = buttonMatch[1].trim();
-      const className = buttonMatch[2]?.trim();
+    // Try to match a backslash escape (\*), which is literal text
+    const escapeMatch = rest.match(new RegExp(`^${ESCAPE.source}`));
+    if (escapeMatch) {
+      return {
+        node: this.located(
+          {
+            type: "text",
+            content: escapeMatch[1],
+          },
+          matchStart,
+          this.offset(start, position + 2)
+        ),
+        end: position + 2,
+      };
+    }
 
+    // Try to match inline code (`code`), whose content is literal
+    const codeMatch = rest.match(/^`([^`]+)`/);
+    if (codeMatch) {
+      const end = position + codeMatch[0].length;
       return {
-        type: "button",
-        content,
-        variant: "outline",
-        ...(className && { className }),
+        node: this.located(
+          {
+            type: "code",
+            content: codeMatch[1],
+          },
+          matchStart,
+          this.offset(start, end)
+        ),
+        end,
       };
     }
 
-    // Plain text
-    return {
-      type: "text",
-      children: this.parseInlineEmphasis(line),
-    };
+    // Try to match a link ([text](url)), whose text may be formatted
+    const linkMatch = rest.match(/^\[((?:\\.|[^\\\]])+)\]\(([^()\s]+)\)/);
+    if (linkMatch) {
+      const end = position + linkMatch[0].length;
+      const children = this.parseInlineEmphasis(linkMatch[1], this.offset(start, position + 1));
+      return {
+        node: this.located(
+          {
+            type: "link",
+            ...this.inlineBody(children),
+            href: linkMatch[2],
+          },
+          matchStart,
+          this.offset(start, end)
+        ),
+        end,
+      };
+    }
+
+    return undefined;
   }
 
-  private parseInlineEmphasis(text: string): MarkdownNode[] {
-    const nodes: MarkdownNode[] = [];
-    let remaining = text;
-    let position = 0;
+  /**
+   * An emphasis marker at a position of the text: * (bold), _ (italic) or
+   * exactly two tildes (strikethrough), so ~~~ stays text
+   */
+  private matchDelimiter(text: string, position: number): Delimiter | undefined {
+    const before = text[position - 1] ?? "";
+
+    switch (text[position]) {
+      case "*":
+        return { marker: "*", start: position, canOpen: true, canClose: true };
+      case "_":
+        return {
+          marker: "_",
+          start: position,
+          canOpen: !WORD_CHARACTER.test(before),
+          canClose: !WORD_CHARACTER.test(text[position + 1] ?? ""),
+        };
+      case "~":
+        return text.startsWith("~~", position) && before !== "~" && text[position + 2] !== "~"
+          ? { marker: "~~", start: position, canOpen: true, canClose: true }
+          : undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Offset of the nearest inline or plugin marker at or after a position, or
+   * the end of the text
+   */
+  private nextInlineMarker(text: string, position: number): number {
+    const tildes = /(?<!~)~~(?!~)/g;
+    tildes.lastIndex = position;
+    const tildeIndex = tildes.exec(text)?.index ?? -1;
+
+    const indexes = [
+      "*",
+      "_",
+      "`",
+      "[",
+      "\\",
+      ...this.pluginRules("inlines").map((rule) => rule.marker),
+    ]
+      .filter((marker) => marker.length > 0)
+      .map((marker) => text.indexOf(marker, position))
+      .concat(tildeIndex)
+      .filter((index) => index !== -1);
+
+    return indexes.length > 0 ? Math.min(...indexes) : text.length;
+  }
 
-    while (position < remaining.length) {
-      // Try to match bold-italic (_*text*_)
-      const boldItalicMatch = remaining
-        .slice(position)
-        .match(/^_\*(.+?)\*_/);
-      if (boldItalicMatch) {
-        const content = boldItalicMatch[1];
-        nodes.push({
+  /**
+   * The bold, italic or strikethrough node for a pair of markers.
+   * _*text*_ is the same bold italic node as *_text_*.
+   */
+  private emphasisNode(
+    opener: Delimiter,
+    closer: Delimiter,
+    content: MarkdownNode[],
+    start: SourcePosition
+  ): MarkdownNode {
+    const end = closer.start + closer.marker.length;
+    const [bold] = content;
+
+    if (opener.marker === "_" && content.length === 1 && bold.type === "bold") {
+      return this.located(
+        {
           type: "bold",
-          children: [{ type: "italic", content }],
-        });
-        position += boldItalicMatch[0].length;
+          children: [
+            this.located(
+              bold.children ? { type: "italic", children: bold.children } : { type: "italic", content: bold.content },
+              this.offset(start, opener.start + 2),
+              this.offset(start, closer.start - 1)
+            ),
+          ],
+        },
+        this.offset(start, opener.start),
+        this.offset(start, end)
+      );
+    }
+
+    return this.located(
+      {
+        type: EMPHASIS_TYPES[opener.marker],
+        ...this.inlineBody(content),
+      },
+      this.offset(start, opener.start),
+      this.offset(start, end)
+    );
+  }
+
+  /**
+   * The content of an inline node: a string when it is plain text, its
+   * nodes otherwise
+   */
+  private inlineBody(nodes: MarkdownNode[]): Pick<MarkdownNode, "content" | "children"> {
+    return nodes.every((node) => node.type === "text" && !node.children)
+      ? { content: nodes.map((node) => node.content).join("") }
+      : { children: nodes };
+  }
+
+  /**
+   * An inline node, or an unpaired marker as text
+   */
+  private inlineItem(item: MarkdownNode | Delimiter, start: SourcePosition): MarkdownNode {
+    if (!("marker" in item)) {
+      return item;
+    }
+    return this.located(
+      {
+        type: "text",
+        content: item.marker,
+      },
+      this.offset(start, item.start),
+      this.offset(start, item.start + item.marker.length)
+    );
+  }
+
+  /**
+   * Checkbox labels may contain inline formatting and links
+   * (I accept the [Terms](/terms) __[]): the label is kept as plain text and
+   * the formatted label goes in labelChildren
+   */
+  private withInlineLabel(node: MarkdownNode, start: SourcePosition): MarkdownNode {
+    const children = this.parseInlineEmphasis(node.label || "", start);
+    node.label = this.plainText(children);
+    if (children.some((child) => child.type !== "text")) {
+      node.labelChildren = children;
+    }
+    return node;
+  }
+
+  private plainText(nodes: MarkdownNode[]): string {
+    return nodes
+      .map((node) => (node.children ? this.plainText(node.children) : node.content || ""))
+      .join("");
+  }
+
+  private unescape(text: string): string {
+    return text.replace(new RegExp(ESCAPE.source, "g"), "$1");
+  }
+
+  /**
+   * Text with its escapes masked, for matching line syntax ("Total \___" is
+   * not a field); offsets into it are offsets into the text
+   */
+  private maskEscapes(text: string): string {
+    return text.replace(
+      new RegExp(ESCAPE.source, "g"),
+      (_, char: string) => String.fromCharCode(MASK, MASK + char.charCodeAt(0))
+    );
+  }
+
+  /**
+   * Part of a masked line as written, for inline parsing
+   */
+  private unmask(text: string): string {
+    return text.replace(MASKED_ESCAPE, (_, char: string) => `\\${String.fromCharCode(char.charCodeAt(0) - MASK)}`);
+  }
+
+  /**
+   * Part of a masked line as plain content, with its escapes removed
+   */
+  private literal(text: string): string {
+    return text.replace(MASKED_ESCAPE, (_, char: string) => String.fromCharCode(char.charCodeAt(0) - MASK));
+  }
+
+  /**
+   * The plugin inline rule matching at a position of the text, if any
+   */
+  private matchInlineRule(
+    text: string,
+    position: number
+  ): { rule: InlineRule; match: RegExpMatchArray } | undefined {
+    for (const rule of this.pluginRules("inlines")) {
+      if (!rule.marker || !text.startsWith(rule.marker, position)) {
         continue;
       }
+      // Sticky, so the pattern only matches at the position
+      const pattern = new RegExp(rule.pattern.source, `${rule.pattern.flags.replace(/[gy]/g, "")}y`);
+      pattern.lastIndex = position;
+      const match = pattern.exec(text);
+      if (match && match[0].length > 0) {
+        return { rule, match };
+      }
+    }
+    return undefined;
+  }
 
-      // Try to match bold (*text*)
-      const boldMatch = remaining.slice(position).match(/^\*(.+?)\*/);
-      if (boldMatch) {
-        nodes.push({
-          type: "bold",
-          content: boldMatch[1],
-        });
-        position += boldMatch[0].length;
-        continue;
+  /**
+   * Parse a block, tracking it as open while its content is parsed.
+   *
+   * A block that runs to the end of the document without its closer is
+   * reported, and if its content is indented deeper than the opener it is
+   * cut off at the first line that is not, so the rest of the document is
+   * parsed outside of it. Blocks nested in it that end before that line are
+   * not parsed again.
+   */
+  private parseBlock(
+    block: BlockKind | OpenBlock,
+    lines: string[],
+    startIndex: number,
+    parseBody: (lines: string[]) => BlockResult
+  ): BlockResult {
+    const parsed = this.parsedBlocks.get(startIndex);
+    if (parsed && parsed.result.nextIndex <= lines.length) {
+      this.diagnostics.push(...parsed.diagnostics);
+      return parsed.result;
+    }
+
+    const diagnosticCount = this.diagnostics.length;
+    this.openBlocks.push(
+      typeof block === "string"
+        ? { kind: block, name: block, closer: block === "card" ? "--]" : "]" }
+        : block
+    );
+
+    let result = parseBody(lines);
+    if (result.nextIndex > lines.length) {
+      const endIndex = this.findDedent(lines, startIndex);
+      if (endIndex !== undefined) {
+        // Discard diagnostics from the first pass; the bounded pass reports its own
+        this.diagnostics.length = diagnosticCount;
+        result = { ...parseBody(lines.slice(0, endIndex)), nextIndex: endIndex };
+      } else {
+        result.nextIndex = lines.length;
       }
+      this.reportUnclosed(lines, startIndex);
+    }
+
+    this.openBlocks.pop();
+    this.applyOpenerAttributes(result.node, lines, startIndex);
+    this.parsedBlocks.set(startIndex, {
+      result,
+      diagnostics: this.diagnostics.slice(diagnosticCount),
+    });
+    return result;
+  }
 
-      // Try to match italic (_text_)
-      const italicMatch = remaining.slice(position).match(/^_(.+?)_/);
-      if (italicMatch) {
-        nodes.push({
-          type: "italic",
-          content: italicMatch[1],
-        });
-        position += italicMatch[0].length;
+  /**
+   * Apply the attribute block of a block's opening line to the block node
+   */
+  private applyOpenerAttributes(
+    node: MarkdownNode,
+    lines: string[],
+    startIndex: number
+  ): void {
+    const line = this.options.preserveWhitespace ? lines[startIndex] : lines[startIndex].trim();
+    // A workflow header may end in ]
+    const opener = line.replace(/\]\s*$/, "");
+    const { block } = this.splitAttributeBlock(opener);
+    if (block === undefined) {
+      return;
+    }
+
+    const blockStart = this.offset(
+      this.lineStart(lines, startIndex),
+      opener.length - 1 - block.length
+    );
+    this.applyAttributes(node, block, blockStart);
+  }
+
+  /**
+   * Index of the first non-blank line after an opener that is indented no
+   * deeper than the opener, provided the block's content was indented
+   */
+  private findDedent(lines: string[], startIndex: number): number | undefined {
+    if (this.options.preserveWhitespace) {
+      return undefined;
+    }
+
+    const indentOf = (line: string) => line.length - line.trimStart().length;
+    const openerIndent = indentOf(lines[startIndex]);
+    let indented = false;
+
+    for (let i = startIndex + 1; i < lines.length; i++) {
+      if (!lines[i].trim()) {
+        continue;
+      }
+      if (indentOf(lines[i]) > openerIndent) {
+        indented = true;
         continue;
       }
+      return indented ? i : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Whether a block enclosing the current one is terminated by the closer
+   */
+  private isEnclosedBy(closer: "]" | "--]"): boolean {
+    return this.openBlocks
+      .slice(0, -1)
+      .some((block) => block.closer === closer);
+  }
+
+  /**
+   * Report the innermost open block as missing its closer
+   */
+  private reportUnclosed(lines: string[], startIndex: number): void {
+    const block = this.openBlocks[this.openBlocks.length - 1];
+    const description = this.describeBlock(block);
+    this.report(
+      `unclosed-${block.kind}`,
+      "error",
+      `${description[0].toUpperCase()}${description.slice(1)} is missing its closing ${block.closer}`,
+      this.lineStart(lines, startIndex),
+      this.lineEnd(lines, startIndex)
+    );
+  }
+
+  /**
+   * Report a closer that is not the innermost block's. If it belongs to an
+   * enclosing block, the innermost block is closed implicitly and true is
+   * returned; otherwise it closes the innermost block in place of its own.
+   */
+  private reportMismatchedCloser(
+    lines: string[],
+    index: number,
+    startIndex: number
+  ): boolean {
+    const block = this.openBlocks[this.openBlocks.length - 1];
+    const closer = lines[index].trim() as OpenBlock["closer"];
+    const description = this.describeBlock(block);
+
+    if (this.isEnclosedBy(closer)) {
+      this.reportUnclosed(lines, startIndex);
+      this.report(
+        "mismatched-closer",
+        "error",
+        `Found ${closer} while the ${description} opened on line ${startIndex + 1} is still open`,
+        this.lineStart(lines, index),
+        this.lineEnd(lines, index)
+      );
+      return true;
+    }
 
-      // No emphasis found, consume until next emphasis marker or end of string
-      const nextAsterisk = remaining.slice(position).indexOf("*");
-      const nextUnderscore = remaining.slice(position).indexOf("_");
+    this.report(
+      "mismatched-closer",
+      "error",
+      `Found ${closer} closing the ${description} opened on line ${startIndex + 1}, which closes with ${block.closer}`,
+      this.lineStart(lines, index),
+      this.lineEnd(lines, index)
+    );
+    return false;
+  }
+
+  /**
+   * A block as named in diagnostics: card, grid, ... or "kpi" block
+   */
+  private describeBlock(block: OpenBlock): string {
+    return block.kind === "block" ? `"${block.name}" block` : block.kind;
+  }
+
+  /**
+   * Split a comma-separated options list, reporting lists with no options
+   */
+  private parseOptions(
+    label: string,
+    list: string,
+    start: SourcePosition,
+    end: SourcePosition
+  ): string[] {
+    // The list is masked, so an escaped comma does not split options
+    const options = list
+      .split(",")
+      .map((opt) => this.literal(opt.trim()))
+      .filter((opt) => opt.length > 0);
+
+    if (options.length === 0) {
+      this.report(
+        "empty-options",
+        "warning",
+        `"${label}" has no options`,
+        start,
+        end
+      );
+    }
+
+    return options;
+  }
+
+  /**
+   * Report a --] or ] line that does not close any open block
+   */
+  private reportStrayCloser(lines: string[], index: number): void {
+    const closer = lines[index].trim();
+    this.report(
+      closer === "--]" ? "stray-card-closer" : "stray-block-closer",
+      "warning",
+      closer === "--]"
+        ? "Found --] without an open card"
+        : "Found ] without an open grid, div, screen or workflow",
+      this.lineStart(lines, index),
+      this.lineEnd(lines, index)
+    );
+  }
+
+  /**
+   * Warn when a div's first class looks like a misspelled block keyword
+   * ([grdi cols-2, [scren home)
+   */
+  private checkContainerKeyword(
+    lines: string[],
+    index: number,
+    config: string
+  ): void {
+    const word = config.split(/\s+/)[0].toLowerCase();
+    if (!word || CONTAINER_KEYWORDS.includes(word)) {
+      return;
+    }
+
+    const keyword = CONTAINER_KEYWORDS.find(
+      (candidate) =>
+        this.editDistance(word, candidate) <= (candidate.length > 4 ? 2 : 1)
+    );
+    if (keyword) {
+      this.report(
+        "unknown-container-keyword",
+        "warning",
+        `Unknown container keyword "${word}"; did you mean "${keyword}"?`,
+        this.lineStart(lines, index),
+        this.lineEnd(lines, index)
+      );
+    }
+  }
 
-      // Find the nearest marker
-      let nextMarker = -1;
-      if (nextAsterisk !== -1 && nextUnderscore !== -1) {
-        nextMarker = Math.min(nextAsterisk, nextUnderscore);
-      } else if (nextAsterisk !== -1) {
-        nextMarker = nextAsterisk;
-      } else if (nextUnderscore !== -1) {
-        nextMarker = nextUnderscore;
+  /**
+   * Apply a field annotation ({email required placeholder="you@example.com"})
+   * to a field node: bare input types set inputType, placeholder=, value= and
+   * help= set the field's presentation, the rest become validation rules
+   */
+  private applyFieldAnnotation(
+    node: MarkdownNode,
+    annotation: string,
+    annotationStart: SourcePosition
+  ): void {
+    const validation: FieldValidation = {};
+    const isInput = node.type === "input";
+    const isText = isInput || node.type === "textarea";
+
+    for (const attribute of this.attributeTokens(annotation, annotationStart)) {
+      const { token, key, word, start, end } = attribute;
+      const value = attribute.value ?? "";
+      const invalid = (message: string) =>
+        this.report("invalid-field-attribute", "warning", message, start, end);
+
+      if (word !== undefined && INPUT_TYPES.includes(word as InputType)) {
+        if (isInput) {
+          node.inputType = word as InputType;
+        } else {
+          invalid(`Input type "${word}" only applies to inputs`);
+        }
+      } else if (word === "required") {
+        validation.required = true;
+      } else if (key === "min" || key === "max") {
+        if (isInput) {
+          validation[key] = /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+        } else {
+          invalid(`"${key}" only applies to inputs`);
+        }
+      } else if (key === "minlength" || key === "maxlength") {
+        const length = Number(value);
+        if (!isText) {
+          invalid(`"${key}" only applies to inputs and textareas`);
+        } else if (!Number.isInteger(length) || length < 0) {
+          invalid(`"${key}" must be a non-negative integer, found "${value}"`);
+        } else {
+          validation[key === "minlength" ? "minLength" : "maxLength"] = length;
+        }
+      } else if (key === "pattern") {
+        if (!isInput) {
+          invalid(`"pattern" only applies to inputs`);
+        } else if (!this.isValidPattern(value)) {
+          invalid(`"pattern" is not a valid regular expression: ${value}`);
+        } else {
+          validation.pattern = value;
+        }
+      } else if (key === "placeholder") {
+        if (isText || node.type === "dropdown") {
+          node.placeholder = value;
+        } else {
+          invalid(`"placeholder" only applies to inputs, textareas and dropdowns`);
+        }
+      } else if (key === "value") {
+        if (isText) {
+          node.defaultValue = value;
+        } else if (node.type === "dropdown" || node.type === "radiogroup") {
+          // Preselect an option by its label
+          const option = (node.options || []).find(
+            (opt) => opt.toLowerCase() === value.toLowerCase()
+          );
+          if (option !== undefined) {
+            node.defaultValue = option;
+          } else {
+            invalid(`"${value}" is not an option of "${node.label}"`);
+          }
+        } else {
+          invalid(`"value" does not apply to checkboxes; use __[x] to pre-check`);
+        }
+      } else if (key === "help") {
+        node.helpText = value;
+      } else if (this.applyAttribute(node, attribute)) {
+        continue;
+      } else {
+        this.report(
+          "unknown-field-attribute",
+          "warning",
+          `Unknown field attribute "${token}"; expected an input type, required, min, max, minlength, maxlength, pattern, placeholder, value, help, #id, .class or key=value`,
+          start,
+          end
+        );
       }
+    }
+
+    if (Object.keys(validation).length > 0) {
+      node.validation = validation;
+    }
+  }
 
-      const textEnd =
-        nextMarker === -1
-          ? remaining.length
-          : position + nextMarker;
+  /**
+   * Apply an attribute block ({#save .w-full data-track=signup}) to a node
+   */
+  private applyAttributes(
+    node: MarkdownNode,
+    block: string,
+    blockStart: SourcePosition
+  ): void {
+    for (const attribute of this.attributeTokens(block, blockStart)) {
+      this.applyAttribute(node, attribute);
+    }
+  }
 
-      if (textEnd > position) {
-        nodes.push({
-          type: "text",
-          content: remaining.slice(position, textEnd),
-        });
-        position = textEnd;
+  /**
+   * Apply an #id, .class or key=value attribute to a node; false if the
+   * token is none of these
+   */
+  private applyAttribute(node: MarkdownNode, attribute: AttributeToken): boolean {
+    const { key, value, quoted, word } = attribute;
+
+    if (word !== undefined && /^#[\w-]+$/.test(word)) {
+      if (node.type === "screen") {
+        this.report(
+          "invalid-attribute",
+          "warning",
+          `Screens take their id from [screen <id>; ignoring "${word}"`,
+          attribute.start,
+          attribute.end
+        );
       } else {
-        // Edge case: marker that doesn't form emphasis
-        nodes.push({
-          type: "text",
-          content: remaining.slice(position, position + 1),
-        });
-        position++;
+        node.id = word.slice(1);
       }
+      return true;
     }
 
-    return nodes;
+    if (word !== undefined && /^\.\S+$/.test(word)) {
+      node.className = node.className
+        ? `${node.className} ${word.slice(1)}`
+        : word.slice(1);
+      return true;
+    }
+
+    if (key !== undefined && value !== undefined) {
+      if (/^on/i.test(key)) {
+        this.report(
+          "invalid-attribute",
+          "warning",
+          `Event handler attributes are not allowed; ignoring "${key}"`,
+          attribute.start,
+          attribute.end
+        );
+        return true;
+      }
+      let typed: string | number | boolean = value;
+      if (!quoted && (value === "true" || value === "false")) {
+        typed = value === "true";
+      } else if (!quoted && /^-?\d+(\.\d+)?$/.test(value)) {
+        typed = Number(value);
+      }
+      node.attributes = { ...node.attributes, [key]: typed };
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Whether every entry of a block is #id, .class or key=value, so that
+   * braces in ordinary text ("Use {curly} braces") stay text
+   */
+  private isAttributeList(block: string): boolean {
+    const tokens = this.attributeTokens(block, { line: 1, column: 1 });
+    return (
+      tokens.length > 0 &&
+      tokens.every(
+        ({ key, word }) =>
+          key !== undefined || (word !== undefined && /^(#[\w-]+|\.\S+)$/.test(word))
+      )
+    );
+  }
+
+  private attributeTokens(text: string, textStart: SourcePosition): AttributeToken[] {
+    return [...text.matchAll(/([\w-]+)=(?:"((?:[^"\\]|\\.)*)"|(\S+))|(\S+)/g)].map((match) => {
+      const [token, key, quotedValue, rawValue, word] = match;
+      const start = this.offset(textStart, match.index ?? 0);
+      return {
+        token,
+        key,
+        value: quotedValue !== undefined ? this.unescapeQuoted(quotedValue) : rawValue,
+        quoted: quotedValue !== undefined,
+        word,
+        start,
+        end: this.offset(start, token.length),
+      };
+    });
+  }
+
+  /**
+   * A quoted attribute value with its \" and \\ escapes resolved
+   */
+  private unescapeQuoted(value: string): string {
+    return value.replace(/\\(["\\])/g, "$1");
+  }
+
+  /**
+   * Split the attribute block off a block opener ([-- Login {#login},
+   * [grid cols-2 {.mt-4}, [screen home {.p-4})
+   */
+  private splitAttributeBlock(text: string): { text: string; block?: string } {
+    const match = text.match(ATTRIBUTE_BLOCK);
+    if (!match || !this.isAttributeList(match[2])) {
+      return { text };
+    }
+    return { text: match[1] ?? "", block: match[2] };
+  }
+
+  private isValidPattern(pattern: string): boolean {
+    try {
+      new RegExp(pattern);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+   */
+  private editDistance(a: string, b: string): number {
+    const d: number[][] = [];
+    for (let i = 0; i <= a.length; i++) {
+      d[i] = [i];
+    }
+    for (let j = 0; j <= b.length; j++) {
+      d[0][j] = j;
+    }
+
+    for (let i = 1; i <= a.length; i++) {
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        d[i][j] = Math.min(
+          d[i - 1][j] + 1,
+          d[i][j - 1] + 1,
+          d[i - 1][j - 1] + cost
+        );
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+        }
+      }
+    }
+
+    return d[a.length][b.length];
+  }
+
+  /**
+   * Record a diagnostic for a source range
+   */
+  private report(
+    code: DiagnosticCode,
+    severity: DiagnosticSeverity,
+    message: string,
+    start: SourcePosition,
+    end: SourcePosition
+  ): void {
+    this.addDiagnostic({ code, severity, message, range: { start, end } });
+  }
+
+  /**
+   * Record a diagnostic. Strict mode reports warnings as errors.
+   */
+  private addDiagnostic(diagnostic: Diagnostic): void {
+    if (this.options.strict && diagnostic.severity === "warning") {
+      diagnostic.severity = "error";
+    }
+    this.diagnostics.push(diagnostic);
+  }
+
+  /**
+   * Record a node's source range, and attach it to the node when position
+   * tracking is enabled
+   */
+  private located<T extends MarkdownNode>(
+    node: T,
+    start: SourcePosition,
+    end: SourcePosition
+  ): T {
+    const range = { start, end };
+    this.ranges.set(node, range);
+    if (this.options.positions) {
+      node.position = range;
+    }
+    return node;
+  }
+
+  /**
+   * Position of the first parsed character of a line (after trimming)
+   */
+  private lineStart(lines: string[], index: number): SourcePosition {
+    const line = lines[index];
+    const column = this.options.preserveWhitespace ? 1 : this.indentation(line) + 1;
+    return { line: index + 1, column };
+  }
+
+  /**
+   * Position just past the last parsed character of a line (after trimming).
+   * Indexes past the end of the document clamp to the last line, which is
+   * where unterminated blocks end.
+   */
+  private lineEnd(lines: string[], index: number): SourcePosition {
+    const lastIndex = Math.max(0, Math.min(index, lines.length - 1));
+    const line = this.options.preserveWhitespace
+      ? lines[lastIndex]
+      : lines[lastIndex].trim();
+    return this.offset(this.lineStart(lines, lastIndex), line.length);
+  }
+
+  /**
+   * Number of whitespace characters a line starts with
+   */
+  private indentation(line: string): number {
+    return line.length - line.trimStart().length;
+  }
+
+  private offset(position: SourcePosition, columns: number): SourcePosition {
+    return { line: position.line, column: position.column + columns };
   }
 }
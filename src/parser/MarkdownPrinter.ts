@@ -0,0 +1,570 @@
+import { InlineRule, LineRule, MarkdownNode, PrintContext, PrinterOptions } from "./types";
+
+/**
+ * Node types that print as a form field line
+ */
+const FIELD_TYPES = ["input", "textarea", "dropdown", "checkbox", "radiogroup"];
+
+/**
+ * Field types that can share a line with other fields (First ___ Last ___)
+ */
+const INLINE_FIELD_TYPES = ["input", "textarea", "dropdown", "checkbox"];
+
+/**
+ * ASCII punctuation, which a preceding backslash escapes
+ */
+const PUNCTUATION = /^[!-\/:-@\[-`{-~]$/;
+
+/**
+ * A letter or digit, next to which an underscore does not mark italic
+ */
+const WORD_CHARACTER = /^[\p{L}\p{N}]$/u;
+
+/**
+ * Braces at the end of a line, which read as an attribute block when every
+ * entry is #id, .class or key=value
+ */
+const TRAILING_BRACES = /(?<=^|\s)\{((?:[^{}"]|"(?:[^"\\]|\\.)*")*)\}$/;
+
+/**
+ * An #id, .class or key=value attribute entry
+ */
+const ATTRIBUTE_ENTRY = /^(?:[\w-]+=(?:"(?:[^"\\]|\\.)*"|\S+)|#[\w-]+|\.\S+)$/;
+
+/**
+ * Prints a Proto Markdown AST back to canonical source.
+ *
+ * Block content is indented one level per nesting depth, a blank line ends
+ * every table, and field annotations and attribute blocks list their
+ * entries in a fixed order. For any AST produced by MarkdownParser,
+ * parsing the printed source gives the same AST (without positions).
+ * Custom nodes are printed by the print functions of plugin rules; one
+ * that no rule prints is written as its content.
+ */
+export class MarkdownPrinter {
+  private options: Required<PrinterOptions>;
+  private printContext: PrintContext = {
+    printInline: (nodes) => this.printInlineNodes(nodes),
+  };
+
+  constructor(options: PrinterOptions = {}) {
+    this.options = {
+      indentSize: 2,
+      plugins: [],
+      ...options,
+    };
+  }
+
+  print(nodes: MarkdownNode[]): string {
+    return this.printNodes(nodes, 0).join("\n") + "\n";
+  }
+
+  private printNodes(nodes: MarkdownNode[], depth: number): string[] {
+    const lines: string[] = [];
+    nodes.forEach((node, i) => {
+      lines.push(...this.printNode(node, depth));
+      // A table runs until a line without pipes, and a list would run on
+      // into the list after it
+      if (
+        (node.type === "table" && i < nodes.length - 1) ||
+        (node.type === "list" && nodes[i + 1]?.type === "list")
+      ) {
+        lines.push("");
+      }
+    });
+    return lines;
+  }
+
+  private printNode(node: MarkdownNode, depth: number): string[] {
+    const indent = " ".repeat(depth * this.options.indentSize);
+
+    switch (node.type) {
+      case "card":
+        return this.printBlock(
+          `[--${this.withSpace(this.escapeAttributeBraces(this.cardTitle(node)))}`,
+          node,
+          "--]",
+          depth
+        );
+      case "grid":
+        return this.printBlock(`[grid ${node.gridConfig || ""}`.trimEnd(), node, "]", depth);
+      case "div":
+        // A space keeps a class list from reading as a block keyword ([ grid-flow)
+        return this.printBlock(`[${this.withSpace(node.className || "")}`, node, "]", depth, false);
+      case "tabs":
+        return this.printBlock("[tabs", node, "]", depth);
+      case "tab":
+        // Braces are escaped so the end of a label never reads as an attribute block
+        return this.printBlock(`[tab ${this.escapeLiteral(node.label || "", "]{")}`, node, "]", depth);
+      case "screen":
+        return this.printBlock(`[screen ${node.id || ""}`, node, "]", depth);
+      case "workflow":
+        return this.printBlock(this.workflowHeader(node), node, "]", depth);
+      case "table":
+        return this.printTable(node).map((line) => `${indent}${line}`);
+      case "container":
+        return this.printContainer(node, depth);
+      case "list":
+        return this.printList(node, depth);
+      case "custom":
+        return this.printPluginBlock(node, depth) ?? [`${indent}${this.printLine(node)}`];
+      default:
+        return [`${indent}${this.printLine(node)}`];
+    }
+  }
+
+  /**
+   * A custom node as the block of the first plugin block rule that prints it
+   */
+  private printPluginBlock(node: MarkdownNode, depth: number): string[] | undefined {
+    for (const rule of this.options.plugins.flatMap((plugin) => plugin.blocks || [])) {
+      const opener = rule.print?.(node, this.printContext);
+      if (opener !== undefined) {
+        return this.printBlock(opener, node, rule.closer ?? "]", depth);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * A custom node as printed by the first of the plugin rules that prints it
+   */
+  private printPluginSyntax(node: MarkdownNode, rules: (LineRule | InlineRule)[]): string | undefined {
+    for (const rule of rules) {
+      const printed = rule.print?.(node, this.printContext);
+      if (printed !== undefined) {
+        return printed;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * An opener line with its attribute block, the indented children and the
+   * closer
+   */
+  private printBlock(
+    opener: string,
+    node: MarkdownNode,
+    closer: string,
+    depth: number,
+    includeClassName = true
+  ): string[] {
+    const indent = " ".repeat(depth * this.options.indentSize);
+    const block = this.attributeBlock(this.attributeEntries(node, includeClassName));
+
+    return [
+      `${indent}${opener}${this.withSpace(block)}`,
+      ...this.printNodes(node.children || [], depth + 1),
+      `${indent}${closer}`,
+    ];
+  }
+
+  private printContainer(node: MarkdownNode, depth: number): string[] {
+    const children = node.children || [];
+    const indent = " ".repeat(depth * this.options.indentSize);
+
+    if (children.length > 1 && children.every((child) => INLINE_FIELD_TYPES.includes(child.type))) {
+      return [`${indent}${children.map((child) => this.printField(child)).join(" ")}`];
+    }
+    if (children.length > 1 && children.every((child) => child.type === "button")) {
+      return [`${indent}${children.map((child) => this.buttonMarkup(child)).join("")}`];
+    }
+
+    // Other rows have no syntax of their own, so their children get a line each
+    return this.printNodes(children, depth);
+  }
+
+  /**
+   * A single-line element with its attribute block
+   */
+  private printLine(node: MarkdownNode): string {
+    if (FIELD_TYPES.includes(node.type)) {
+      return this.printField(node);
+    }
+
+    let line: string;
+    switch (node.type) {
+      case "header":
+        line = `${"#".repeat(node.level || 1)} ${this.inlineContent(node)}`;
+        break;
+      case "button":
+        return this.printButton(node);
+      case "image":
+        line = `![${this.escapeLiteral(node.alt || "", "]")}](${this.escapeLiteral(node.src || "", ")")})`;
+        break;
+      case "text":
+        line = this.escapeLineStart(this.printInline(node), (node.children?.[0] ?? node).type === "text");
+        break;
+      case "custom":
+        line =
+          this.printPluginSyntax(node, this.options.plugins.flatMap((plugin) => plugin.lines || [])) ??
+          this.printInline(node);
+        break;
+      default:
+        line = this.printInline(node);
+    }
+
+    return `${this.escapeAttributeBraces(line)}${this.withSpace(this.attributeBlock(this.attributeEntries(node)))}`;
+  }
+
+  private printButton(node: MarkdownNode): string {
+    // [text | classes] has no room for navigation, so classes of a
+    // navigation button go in its attribute block
+    const classInMarkup = !node.navigateTo && !!node.className;
+    const markup = this.buttonMarkup(node, classInMarkup);
+    const block = this.attributeBlock(this.attributeEntries(node, !classInMarkup));
+    return `${markup}${this.withSpace(block)}`;
+  }
+
+  private buttonMarkup(node: MarkdownNode, includeClassName = false): string {
+    const content = this.escapeLiteral(node.content || "", "[]|").replace(/->/g, "-\\>");
+    // An outline button starting with ( would read as a default button
+    const text = node.variant === "default" ? `(${content})` : content.replace(/^\(/, "\\(");
+    const navigation = node.navigateTo ? ` -> ${this.escapeLiteral(node.navigateTo, "]")}` : "";
+    const className = includeClassName && node.className ? ` | ${node.className}` : "";
+    return `[${text}${navigation}${className}]`;
+  }
+
+  /**
+   * A field line: label, marker and annotation (Age ___ {number required min=18})
+   */
+  private printField(node: MarkdownNode): string {
+    const label =
+      node.type === "checkbox"
+        ? node.labelChildren && node.labelChildren.length > 0
+          ? this.escapeLineStart(
+              this.printInlineNodes(node.labelChildren),
+              node.labelChildren[0].type === "text"
+            )
+          : this.escapeLineStart(this.escapeText(node.label || "", ""), true)
+        : this.escapeLabel(node.label || "");
+    const annotation = this.attributeBlock([
+      ...this.annotationEntries(node),
+      ...this.attributeEntries(node),
+    ]);
+    return `${label} ${this.fieldMarker(node)}${this.withSpace(annotation)}`;
+  }
+
+  private fieldMarker(node: MarkdownNode): string {
+    const options =
+      node.options && node.options.length > 0
+        ? ` [${node.options.map((option) => this.escapeLiteral(option, ",]")).join(", ")}]`
+        : "";
+
+    switch (node.type) {
+      case "textarea":
+        return "|___|";
+      case "checkbox":
+        return node.checked ? "__[x]" : "__[]";
+      case "radiogroup":
+        return `__()${options}`;
+      case "dropdown":
+        return `__>${options}`;
+      default:
+        return node.inputType === "password" ? "__*" : "___";
+    }
+  }
+
+  /**
+   * Field annotation entries: input type, validation rules, placeholder,
+   * value and help text
+   */
+  private annotationEntries(node: MarkdownNode): string[] {
+    const entries: string[] = [];
+    const validation = node.validation || {};
+
+    if (node.type === "input" && node.inputType && !["text", "password"].includes(node.inputType)) {
+      entries.push(node.inputType);
+    }
+    if (validation.required) {
+      entries.push("required");
+    }
+    if (validation.min !== undefined) {
+      entries.push(`min=${this.attributeValue(String(validation.min))}`);
+    }
+    if (validation.max !== undefined) {
+      entries.push(`max=${this.attributeValue(String(validation.max))}`);
+    }
+    if (validation.minLength !== undefined) {
+      entries.push(`minlength=${validation.minLength}`);
+    }
+    if (validation.maxLength !== undefined) {
+      entries.push(`maxlength=${validation.maxLength}`);
+    }
+    if (validation.pattern !== undefined) {
+      entries.push(`pattern=${this.attributeValue(validation.pattern)}`);
+    }
+    if (node.placeholder !== undefined) {
+      entries.push(`placeholder=${this.attributeValue(node.placeholder)}`);
+    }
+    if (node.defaultValue !== undefined) {
+      entries.push(`value=${this.attributeValue(node.defaultValue)}`);
+    }
+    if (node.helpText !== undefined) {
+      entries.push(`help=${this.attributeValue(node.helpText)}`);
+    }
+
+    return entries;
+  }
+
+  /**
+   * #id, .class and key=value entries of a node. A screen's id is part of
+   * its opener.
+   */
+  private attributeEntries(node: MarkdownNode, includeClassName = true): string[] {
+    const entries: string[] = [];
+
+    if (node.id && node.type !== "screen") {
+      entries.push(`#${node.id}`);
+    }
+    if (includeClassName && node.className) {
+      entries.push(...node.className.split(/\s+/).filter(Boolean).map((name) => `.${name}`));
+    }
+    for (const [key, value] of Object.entries(node.attributes || {})) {
+      entries.push(
+        `${key}=${typeof value === "string" ? this.typedAttributeValue(value) : String(value)}`
+      );
+    }
+
+    return entries;
+  }
+
+  private attributeBlock(entries: string[]): string {
+    return entries.length > 0 ? `{${entries.join(" ")}}` : "";
+  }
+
+  /**
+   * A value as written in an attribute block, quoted with its quotes and
+   * backslashes escaped when it would not survive as a single bare word
+   */
+  private attributeValue(value: string): string {
+    return /^[^\s{}"\\]+$/.test(value) ? value : `"${value.replace(/["\\]/g, "\\$&")}"`;
+  }
+
+  /**
+   * A string attribute value, also quoted when a bare word would be read as a
+   * boolean or number
+   */
+  private typedAttributeValue(value: string): string {
+    return /^(true|false|-?\d+(\.\d+)?)$/.test(value) ? `"${value}"` : this.attributeValue(value);
+  }
+
+  private workflowHeader(node: MarkdownNode): string {
+    const attributes: string[] = [];
+    const firstScreen = (node.children || []).find((child) => child.type === "screen");
+
+    // Without start= the first screen is the initial one
+    if (node.initialScreen && node.initialScreen !== firstScreen?.id) {
+      attributes.push(`start=${this.attributeValue(node.initialScreen)}`);
+    }
+    if (node.name) {
+      attributes.push(`name=${this.attributeValue(node.name)}`);
+    }
+
+    return `[workflow${this.withSpace(attributes.join(" "))}`;
+  }
+
+  private printTable(node: MarkdownNode): string[] {
+    const headers = node.headers || [];
+    const row = (cells: string[]) => `| ${cells.map((cell) => this.escapeLiteral(cell, "|")).join(" | ")} |`;
+
+    return [
+      row(headers),
+      `|${headers.map((header) => "-".repeat(Math.max(header.length + 2, 3))).join("|")}|`,
+      ...(node.rows || []).map(row),
+    ];
+  }
+
+  /**
+   * An item per line, numbered from the list's start when it is ordered,
+   * with nested lists indented one level under their item
+   */
+  private printList(node: MarkdownNode, depth: number): string[] {
+    const indent = " ".repeat(depth * this.options.indentSize);
+    const start = node.start ?? 1;
+
+    return (node.children || []).flatMap((item, i) => {
+      const marker = node.ordered ? `${start + i}.` : "-";
+      const children = item.children || [];
+      return [
+        `${indent}${marker} ${this.escapeAttributeBraces(
+          this.printInlineNodes(children.filter((child) => child.type !== "list"))
+        )}${this.withSpace(this.attributeBlock(this.attributeEntries(item)))}`,
+        ...children
+          .filter((child) => child.type === "list")
+          .flatMap((list) => this.printList(list, depth + 1)),
+      ];
+    });
+  }
+
+  private cardTitle(node: MarkdownNode): string {
+    if (node.titleChildren && node.titleChildren.length > 0) {
+      return this.printInlineNodes(node.titleChildren);
+    }
+    return node.title || "";
+  }
+
+  private inlineContent(node: MarkdownNode): string {
+    if (node.children && node.children.length > 0) {
+      return this.printInlineNodes(node.children);
+    }
+    return node.content || "";
+  }
+
+  /**
+   * Inline nodes printed right to left, so that each text node knows the
+   * text following it. Inside a pair of markers, the reserved characters
+   * are the closing markers, escaped wherever they appear.
+   */
+  private printInlineNodes(nodes: MarkdownNode[], following = "", reserved = ""): string {
+    let printed = following;
+    for (let i = nodes.length - 1; i >= 0; i--) {
+      const previous = nodes[i - 1];
+      const preceding = previous?.type === "text" && !previous.children ? (previous.content || "").slice(-1) : "";
+      printed = this.printInline(nodes[i], printed, reserved, preceding) + printed;
+    }
+    return printed.slice(0, printed.length - following.length);
+  }
+
+  /**
+   * Inline text with its markers (*bold*, _italic_, _*both*_, ~~struck~~,
+   * `code`, [link](url))
+   */
+  private printInline(node: MarkdownNode, following = "", reserved = "", preceding = ""): string {
+    switch (node.type) {
+      case "bold":
+        if (node.children?.length === 1 && node.children[0].type === "italic") {
+          // Bold italic is written _*text*_, or *_text_* inside a word where
+          // an underscore does not mark italic
+          return WORD_CHARACTER.test(preceding) || WORD_CHARACTER.test(following[0] ?? "")
+            ? `*_${this.delimitedContent(node.children[0], "_", `${reserved}*`)}_*`
+            : `_*${this.delimitedContent(node.children[0], "*", `${reserved}_`)}*_`;
+        }
+        return `*${this.delimitedContent(node, "*", reserved)}*`;
+      case "italic":
+        return `_${this.delimitedContent(node, "_", reserved)}_`;
+      case "strikethrough":
+        return `~~${this.delimitedContent(node, "~~", reserved)}~~`;
+      case "code":
+        return `\`${node.content || ""}\``;
+      case "link":
+        return `[${this.delimitedContent(node, "]", reserved)}](${node.href || ""})`;
+      case "text":
+        return node.children && node.children.length > 0
+          ? this.printInlineNodes(node.children, following, reserved)
+          : this.escapeText(node.content || "", following, reserved, preceding);
+      case "custom":
+        return (
+          this.printPluginSyntax(node, this.options.plugins.flatMap((plugin) => plugin.inlines || [])) ??
+          this.inlineContent(node)
+        );
+      default:
+        return this.inlineContent(node);
+    }
+  }
+
+  /**
+   * The content between a pair of markers, with the closing marker escaped
+   * throughout, including in nested emphasis
+   */
+  private delimitedContent(node: MarkdownNode, closer: string, reserved: string): string {
+    if (node.children && node.children.length > 0) {
+      return this.printInlineNodes(node.children, closer, `${reserved}${closer[0]}`);
+    }
+
+    return this.escapeText(node.content || "", closer, `${reserved}${closer[0]}`);
+  }
+
+  /**
+   * Plain content with the given characters escaped, and each backslash
+   * that would escape the character after it, or a marker after the content
+   */
+  private escapeLiteral(text: string, characters: string): string {
+    return [...text]
+      .map((char, i) => {
+        const next = text[i + 1];
+        const escaped =
+          characters.includes(char) || (char === "\\" && (next === undefined || PUNCTUATION.test(next)));
+        return escaped ? `\\${char}` : char;
+      })
+      .join("");
+  }
+
+  /**
+   * Printed text with the opening brace escaped of trailing braces that
+   * would read as an attribute block (Total \{x=1})
+   */
+  private escapeAttributeBraces(text: string): string {
+    const match = text.match(TRAILING_BRACES);
+    if (!match || match.index === undefined) {
+      return text;
+    }
+    const entries = [...match[1].matchAll(/[\w-]+=(?:"(?:[^"\\]|\\.)*"|\S+)|\S+/g)].map((entry) => entry[0]);
+    return entries.length > 0 && entries.every((entry) => ATTRIBUTE_ENTRY.test(entry))
+      ? `${text.slice(0, match.index)}\\${text.slice(match.index)}`
+      : text;
+  }
+
+  /**
+   * A field label with the characters escaped that would start other syntax:
+   * a line-start marker, or an underscore or pipe that could begin a field
+   * marker (Total ___)
+   */
+  private escapeLabel(label: string): string {
+    return this.escapeLineStart(this.escapeLiteral(label, "").replace(/(?<=\s)[_|]/g, "\\$&"), true);
+  }
+
+  /**
+   * Text at the start of a line, with a first character escaped that would
+   * otherwise start a header, block, button, image, table or list item, or
+   * close a block. A number starting an ordered list item keeps its digits
+   * and has its dot escaped (1\. text). Only text can be escaped; a leading
+   * link is left as it is.
+   */
+  private escapeLineStart(text: string, startsWithText: boolean): string {
+    if (!startsWithText) {
+      return text;
+    }
+    if (/^\d+\.\s/.test(text)) {
+      return text.replace(".", "\\.");
+    }
+    return /^([#\[!|]|-\s|\]$|--\]$)/.test(text) ? `\\${text}` : text;
+  }
+
+  /**
+   * Plain text with the marker characters escaped that would otherwise start
+   * inline syntax together with the text that follows, and the reserved
+   * characters. An underscore after a letter or digit cannot open italic,
+   * so it is left as it is (snake_case).
+   */
+  private escapeText(text: string, following: string, reserved = "", preceding = ""): string {
+    // Only an exact pair of tildes opens strikethrough, and only with a later pair to close it.
+    // A lone tilde was escaped or part of an unmatched pair, so it is written escaped
+    const source = text + following;
+    const tildePairs =
+      text === "~" ? [0, 1] : [...source.matchAll(/(?<!~)~~(?!~)/g)].map((match) => match.index);
+
+    return [...text]
+      .map((char, i) => {
+        const rest = text.slice(i + 1) + following;
+        const escaped =
+          reserved.includes(char) ||
+          (char === "\\"
+            ? PUNCTUATION.test(rest[0] ?? "")
+            : char === "["
+              ? rest.includes("](")
+              : char === "~"
+                ? tildePairs.some((start) => (start === i || start === i - 1) && tildePairs.some((end) => end > start))
+                : char === "_"
+                  ? !WORD_CHARACTER.test(i > 0 ? text[i - 1] : preceding) && rest.includes(char)
+                  : "*`".includes(char) && rest.includes(char));
+        return escaped ? `\\${char}` : char;
+      })
+      .join("");
+  }
+
+  private withSpace(text: string): string {
+    return text ? ` ${text}` : "";
+  }
+}
@@ -0,0 +1,157 @@
+import { visit } from "./traverse";
+import { Diagnostic, MarkdownNode, SourceRange } from "./types";
+
+/**
+ * Validates navigation between the screens of workflows.
+ *
+ * Reports navigation targets that do not exist in the enclosing workflow,
+ * duplicate screen ids, screens that cannot be reached from the initial
+ * screen, screens with no way out, and navigation buttons used outside of
+ * any workflow. Diagnostics carry the node's source range from the given
+ * ranges (MarkdownParser passes the ranges of every node it parsed), or
+ * the node's position when the AST was parsed with positions enabled.
+ */
+export class WorkflowValidator {
+  private ranges?: ReadonlyMap<MarkdownNode, SourceRange>;
+
+  validate(nodes: MarkdownNode[], ranges?: ReadonlyMap<MarkdownNode, SourceRange>): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    this.ranges = ranges;
+    this.validateNodes(nodes, diagnostics);
+    return diagnostics;
+  }
+
+  private validateNodes(nodes: MarkdownNode[], diagnostics: Diagnostic[]): void {
+    visit(nodes, {
+      workflow: (node) => {
+        this.validateWorkflow(node, diagnostics);
+        return "skip";
+      },
+      button: (node) => {
+        if (node.navigateTo) {
+          diagnostics.push({
+            code: "navigation-outside-workflow",
+            severity: "warning",
+            message: `Button "${node.content || ""}" navigates to "${node.navigateTo}" but is not inside a workflow`,
+            range: this.rangeOf(node),
+          });
+        }
+      },
+    });
+  }
+
+  private validateWorkflow(workflow: MarkdownNode, diagnostics: Diagnostic[]): void {
+    const screens = (workflow.children || []).filter(
+      (child) => child.type === "screen"
+    );
+
+    if (screens.length === 0) {
+      diagnostics.push({
+        code: "empty-workflow",
+        severity: "warning",
+        message: "Workflow has no screens",
+        range: this.rangeOf(workflow),
+      });
+      return;
+    }
+
+    // Collect screen ids, keeping the first screen for each id
+    const screensById = new Map<string, MarkdownNode>();
+    for (const screen of screens) {
+      const id = screen.id || "";
+      if (screensById.has(id)) {
+        diagnostics.push({
+          code: "duplicate-screen-id",
+          severity: "error",
+          message: `Screen id "${id}" is already used by another screen in this workflow`,
+          range: this.rangeOf(screen),
+        });
+        continue;
+      }
+      screensById.set(id, screen);
+    }
+
+    // Build navigation edges and check their targets
+    const targetsById = new Map<string, string[]>();
+    for (const [id, screen] of screensById) {
+      const buttons = this.collectNavigationButtons(screen.children || []);
+      const targets: string[] = [];
+
+      for (const button of buttons) {
+        const target = button.navigateTo || "";
+        if (!screensById.has(target)) {
+          diagnostics.push({
+            code: "unknown-navigation-target",
+            severity: "error",
+            message: `Button "${button.content || ""}" navigates to unknown screen "${target}"`,
+            range: this.rangeOf(button),
+          });
+          continue;
+        }
+        targets.push(target);
+      }
+
+      targetsById.set(id, targets);
+
+      if (buttons.length === 0) {
+        diagnostics.push({
+          code: "dead-end-screen",
+          severity: "info",
+          message: `Screen "${id}" has no navigation to other screens`,
+          range: this.rangeOf(screen),
+        });
+      }
+    }
+
+    const initialScreen = workflow.initialScreen || screens[0].id || "";
+    if (!screensById.has(initialScreen)) {
+      diagnostics.push({
+        code: "unknown-initial-screen",
+        severity: "error",
+        message: `Initial screen "${initialScreen}" does not exist in this workflow`,
+        range: this.rangeOf(workflow),
+      });
+      return;
+    }
+
+    // Walk the navigation graph from the initial screen
+    const reachable = new Set<string>([initialScreen]);
+    const queue = [initialScreen];
+    while (queue.length > 0) {
+      const id = queue.shift() as string;
+      for (const target of targetsById.get(id) || []) {
+        if (!reachable.has(target)) {
+          reachable.add(target);
+          queue.push(target);
+        }
+      }
+    }
+
+    for (const [id, screen] of screensById) {
+      if (!reachable.has(id)) {
+        diagnostics.push({
+          code: "unreachable-screen",
+          severity: "warning",
+          message: `Screen "${id}" cannot be reached from the initial screen "${initialScreen}"`,
+          range: this.rangeOf(screen),
+        });
+      }
+    }
+  }
+
+  private collectNavigationButtons(nodes: MarkdownNode[]): MarkdownNode[] {
+    const buttons: MarkdownNode[] = [];
+    visit(nodes, {
+      button: (node) => {
+        if (node.navigateTo) {
+          buttons.push(node);
+        }
+      },
+    });
+    return buttons;
+  }
+
+  private rangeOf(node: MarkdownNode): SourceRange | undefined {
+    return this.ranges?.get(node) ?? node.position;
+  }
+}
@@ -0,0 +1,227 @@
+import { MarkdownFormatter } from './MarkdownFormatter';
+import { MarkdownParser } from './MarkdownParser';
+
+describe('MarkdownFormatter', () => {
+  let formatter: MarkdownFormatter;
+  let parser: MarkdownParser;
+
+  beforeEach(() => {
+    formatter = new MarkdownFormatter();
+    parser = new MarkdownParser();
+  });
+
+  // Formatting must not change what the document parses to, and formatting
+  // formatted source must change nothing
+  function expectStableFormat(source: string): string {
+    const formatted = formatter.format(source);
+    expect(parser.parse(formatted).nodes).toEqual(parser.parse(source).nodes);
+    expect(formatter.format(formatted)).toBe(formatted);
+    return formatted;
+  }
+
+  test('re-indents nested blocks', () => {
+    const formatted = expectStableFormat(`[grid cols-2 gap-4
+[-- Left
+      Name ___
+--]
+    [--   Right
+[ flex gap-2
+[(Save)]
+      ]
+  --]
+]`);
+    expect(formatted).toBe(`[grid cols-2 gap-4
+  [-- Left
+    Name ___
+  --]
+  [-- Right
+    [ flex gap-2
+      [(Save)]
+    ]
+  --]
+]
+`);
+  });
+
+  test('indents workflows and screens', () => {
+    const formatted = expectStableFormat(`[workflow start=home
+[screen   home
+# Home
+[(Next) -> done]
+]
+[screen done
+[Back->home]
+]
+]`);
+    expect(formatted).toBe(`[workflow start=home
+  [screen home
+    # Home
+    [(Next) -> done]
+  ]
+  [screen done
+    [Back -> home]
+  ]
+]
+`);
+  });
+
+  test('normalises spacing around field markers and buttons', () => {
+    const formatted = expectStableFormat(`Email     ___
+First ___    Last ___
+Country   __>   [USA,Canada ,  Mexico]
+Plan __()  [Free,Pro]
+Age ___   {  number   min=18 }
+[(Save)|w-full]
+[(Save)]   [Cancel]
+#   Title`);
+    expect(formatted).toBe(`Email ___
+First ___ Last ___
+Country __> [USA, Canada, Mexico]
+Plan __() [Free, Pro]
+Age ___ {number min=18}
+[(Save) | w-full]
+[(Save)][Cancel]
+# Title
+`);
+  });
+
+  test('aligns table columns', () => {
+    const formatted = expectStableFormat(`[-- Users
+|Name|Age|City|
+|-|-|-|
+|Johnathan|30|NYC|
+| Jane | 5 | Los Angeles |
+--]`);
+    expect(formatted).toBe(`[-- Users
+  | Name      | Age | City        |
+  |-----------|-----|-------------|
+  | Johnathan | 30  | NYC         |
+  | Jane      | 5   | Los Angeles |
+--]
+`);
+  });
+
+  test('keeps escaped pipes inside table cells', () => {
+    const formatted = expectStableFormat('|Op|Means|\n|-|-|\n|a \\| b|either|\nNot \\| a row');
+    expect(formatted).toBe(`| Op     | Means  |
+|--------|--------|
+| a \\| b | either |
+Not \\| a row
+`);
+  });
+
+  test('indents nested list items one level under their parent', () => {
+    const formatted = expectStableFormat(`[-- Steps
+-   Prepare
+      1.  Mix
+      2. Bake
+         - Cool
+- Serve
+   - Hot
+--]`);
+    expect(formatted).toBe(`[-- Steps
+  - Prepare
+    1. Mix
+    2. Bake
+      - Cool
+  - Serve
+    - Hot
+--]
+`);
+  });
+
+  test('keeps lists apart that would join once re-indented', () => {
+    expect(expectStableFormat('  - a\n- b')).toBe('- a\n\n- b\n');
+    expect(expectStableFormat('- a\n    - b\n  - c')).toBe('- a\n    - b\n  - c\n');
+  });
+
+  test('indents tabs and their tab sections', () => {
+    const formatted = expectStableFormat(`[tabs   {.w-full}
+[tab   Account
+Name ___
+]
+[tab Billing \\] plans
+[(Upgrade)]
+]
+]`);
+    expect(formatted).toBe(`[tabs {.w-full}
+  [tab Account
+    Name ___
+  ]
+  [tab Billing \\] plans
+    [(Upgrade)]
+  ]
+]
+`);
+  });
+
+  test('keeps comments, unrecognised lines and single blank lines', () => {
+    const formatted = expectStableFormat(`<!-- Login screen -->
+
+
+# Login
+    // TODO: add SSO
+Country __>[USA,Canada]
+
+
+Email ___
+`);
+    expect(formatted).toBe(`<!-- Login screen -->
+
+# Login
+// TODO: add SSO
+Country __>[USA,Canada]
+
+Email ___
+`);
+  });
+
+  test('keeps lines whose canonical form would parse differently', () => {
+    expect(formatter.format('Age ___ {numbr}')).toBe('Age ___ {numbr}\n');
+    expect(formatter.format('Pick __> []')).toBe('Pick __> []\n');
+  });
+
+  test('leaves stray closers at the current depth', () => {
+    const formatted = expectStableFormat('--]\n[grid cols-2\nText\n]\n]');
+    expect(formatted).toBe('--]\n[grid cols-2\n  Text\n]\n]\n');
+  });
+
+  test('returns documents with unclosed blocks unchanged', () => {
+    const source = '[-- Card\n    Name ___\nOutside';
+    expect(formatter.format(source)).toBe(source);
+  });
+
+  test('returns documents with mismatched closers unchanged', () => {
+    const source = '[grid cols-2\n    Text\n--]';
+    expect(formatter.format(source)).toBe(source);
+  });
+
+  test('uses the indent size option', () => {
+    expect(new MarkdownFormatter({ indentSize: 4 }).format('[-- Card\nText\n--]')).toBe(
+      '[-- Card\n    Text\n--]\n'
+    );
+  });
+
+  test('formats the README workflow example stably', () => {
+    expectStableFormat(`[workflow
+[screen personal
+  [-- Personal Information
+    First Name ___
+    Last Name ___
+    [(Next) -> contact]
+  --]
+]
+[screen contact
+  [-- Contact Details
+    Email ___
+    Phone ___
+    [Back -> personal][(Submit) -> success]
+  --]
+]
+[screen success
+  # Thank you!
+  [(Start Over) -> personal]
+]
+]`);
+  });
+});
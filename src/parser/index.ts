@@ -1,2 +1,65 @@
 export { MarkdownParser } from "./MarkdownParser";
-export type { MarkdownNode } from "./types";
\ No newline at end of file
+export { WorkflowValidator } from "./WorkflowValidator";
+export { MarkdownPrinter } from "./MarkdownPrinter";
+export { MarkdownFormatter } from "./MarkdownFormatter";
+export { visit, transform } from "./traverse";
+export { isNode, isFieldNode, isInlineNode, builders } from "./nodes";
+export type {
+  MarkdownNode,
+  InputType,
+  FieldValidation,
+  SourcePosition,
+  SourceRange,
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  PrinterOptions,
+  FormatterOptions,
+  NodePath,
+  NodeType,
+  Visitor,
+  VisitorHooks,
+  VisitAction,
+  VisitCallback,
+  TransformCallback,
+  TransformVisitor,
+  BaseNode,
+  ProtoNode,
+  NodeOfType,
+  InlineNode,
+  FieldNode,
+  FieldNodeBase,
+  HeaderNode,
+  TextNode,
+  BoldNode,
+  ItalicNode,
+  StrikethroughNode,
+  CodeNode,
+  LinkNode,
+  InputNode,
+  TextareaNode,
+  DropdownNode,
+  CheckboxNode,
+  RadioGroupNode,
+  ButtonNode,
+  ImageNode,
+  TableNode,
+  ListNode,
+  ListItemNode,
+  CardNode,
+  ContainerNode,
+  GridNode,
+  DivNode,
+  TabsNode,
+  TabNode,
+  WorkflowNode,
+  ScreenNode,
+  CustomNode,
+  ParserOptions,
+  ParserPlugin,
+  PluginContext,
+  PrintContext,
+  LineRule,
+  BlockRule,
+  InlineRule,
+} from "./types";
\ No newline at end of file
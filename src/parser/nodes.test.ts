@@ -0,0 +1,126 @@
+import { MarkdownParser } from './MarkdownParser';
+import { builders, isFieldNode, isInlineNode, isNode } from './nodes';
+import { visit } from './traverse';
+import { MarkdownNode } from './types';
+
+describe('typed nodes', () => {
+  let parser: MarkdownParser;
+
+  beforeEach(() => {
+    parser = new MarkdownParser();
+  });
+
+  test('builders create the nodes the parser produces', () => {
+    const source = `[workflow
+[screen login
+[-- Sign *in*
+# Welcome
+Email ___ {email required}
+Bio |___|
+Plan __() [Free, Pro]
+Country __> [USA, Canada]
+Remember me __[x]
+| Name | Age |
+|------|-----|
+| Jane | 30 |
+
+[(Next) -> done]
+--]
+]
+[screen done
+[grid cols-2
+Thanks
+]
+[ flex gap-2
+![Logo](logo.png)
+[(Save)][Cancel]
+]
+]
+]`;
+
+    const b = builders;
+    expect(parser.parse(source).nodes).toEqual([
+      b.workflow([
+        b.screen('login', [
+          b.card([b.text('Sign '), b.bold('in')], [
+            b.header(1, 'Welcome'),
+            b.input('Email', { inputType: 'email', validation: { required: true } }),
+            b.textarea('Bio'),
+            b.radioGroup('Plan', ['Free', 'Pro']),
+            b.dropdown('Country', ['USA', 'Canada']),
+            b.checkbox('Remember me', { checked: true }),
+            b.table(['Name', 'Age'], [['Jane', '30']]),
+            b.button('Next', { variant: 'default', navigateTo: 'done' }),
+          ]),
+        ]),
+        b.screen('done', [
+          b.grid('cols-2', [b.text([b.text('Thanks')])]),
+          b.div(
+            [
+              b.image('logo.png', 'Logo'),
+              b.container([b.button('Save', { variant: 'default' }), b.button('Cancel')]),
+            ],
+            { className: 'flex gap-2' }
+          ),
+        ]),
+      ]),
+    ]);
+  });
+
+  test('builds workflows that start at their first screen', () => {
+    expect(builders.workflow([builders.screen('a', []), builders.screen('b', [])]).initialScreen).toBe('a');
+    expect(
+      builders.workflow([builders.screen('a', [])], { initialScreen: 'b', name: 'Flow' })
+    ).toEqual({
+      type: 'workflow',
+      children: [{ type: 'screen', id: 'a', children: [] }],
+      initialScreen: 'b',
+      name: 'Flow',
+    });
+  });
+
+  test('builds lists with nested lists in their items', () => {
+    const b = builders;
+    expect(parser.parse('- Fruit\n  3. *Apple*\n- Bread').nodes).toEqual([
+      b.list([
+        b.listItem('Fruit', [b.list([b.listItem([b.bold('Apple')])], { ordered: true, start: 3 })]),
+        b.listItem('Bread'),
+      ]),
+    ]);
+  });
+
+  test('builds tabs', () => {
+    const b = builders;
+    expect(parser.parse('[tabs {.w-full}\n[tab Account\nName ___\n]\n[tab Billing\n]\n]').nodes).toEqual([
+      b.tabs([b.tab('Account', [b.input('Name')]), b.tab('Billing', [])], { className: 'w-full' }),
+    ]);
+  });
+
+  test('narrows nodes with type guards', () => {
+    const nodes: MarkdownNode[] = parser.parse('[(Save) -> done]\nEmail ___\nHello *there*').nodes;
+
+    const button = nodes[0];
+    expect(isNode(button, 'button') && button.variant).toBe('default');
+    expect(isNode(button, 'input', 'textarea')).toBe(false);
+    expect(nodes.filter(isFieldNode).map((field) => field.label)).toEqual(['Email']);
+    expect(nodes[2].children?.filter(isInlineNode).map((node) => node.type)).toEqual(['text', 'bold']);
+  });
+
+  test('passes typed nodes to per-type visitor callbacks', () => {
+    const targets: string[] = [];
+    const headerLevels: number[] = [];
+    visit(parser.parse('# Title\n[(Next) -> done]\n[Back -> start]').nodes, {
+      button: (node) => {
+        targets.push(`${node.variant} ${node.navigateTo}`);
+      },
+      header: {
+        leave: (node) => {
+          headerLevels.push(node.level);
+        },
+      },
+    });
+
+    expect(targets).toEqual(['default done', 'outline start']);
+    expect(headerLevels).toEqual([1]);
+  });
+});
@@ -0,0 +1,215 @@
+import {
+  BoldNode,
+  ButtonNode,
+  CardNode,
+  CheckboxNode,
+  CodeNode,
+  ContainerNode,
+  CustomNode,
+  DivNode,
+  DropdownNode,
+  FieldNode,
+  GridNode,
+  HeaderNode,
+  ImageNode,
+  InlineNode,
+  InputNode,
+  ItalicNode,
+  LinkNode,
+  ListItemNode,
+  ListNode,
+  MarkdownNode,
+  NodeOfType,
+  NodeType,
+  ProtoNode,
+  RadioGroupNode,
+  ScreenNode,
+  StrikethroughNode,
+  TableNode,
+  TabNode,
+  TabsNode,
+  TextareaNode,
+  TextNode,
+  WorkflowNode,
+} from "./types";
+
+/**
+ * Optional fields of a node type, for the builders
+ */
+type NodeProps<Node extends ProtoNode> = Partial<Omit<Node, "type">>;
+
+const FIELD_TYPES: NodeType[] = ["input", "textarea", "dropdown", "checkbox", "radiogroup"];
+const INLINE_TYPES: NodeType[] = ["text", "bold", "italic", "strikethrough", "code", "link"];
+
+/**
+ * Whether a node has one of the given types, narrowing it to the typed node
+ * (isNode(node, "button") && node.variant)
+ */
+export function isNode<Type extends NodeType>(
+  node: MarkdownNode,
+  ...types: Type[]
+): node is NodeOfType<Type> {
+  return (types as NodeType[]).includes(node.type);
+}
+
+/**
+ * Whether a node is a form field (input, textarea, dropdown, checkbox or
+ * radio group)
+ */
+export function isFieldNode(node: MarkdownNode): node is FieldNode {
+  return FIELD_TYPES.includes(node.type);
+}
+
+/**
+ * Whether a node is inline text (text, bold, italic, strikethrough, inline
+ * code or a link)
+ */
+export function isInlineNode(node: MarkdownNode): node is InlineNode {
+  return INLINE_TYPES.includes(node.type);
+}
+
+/**
+ * Inline content: a string becomes a single text node
+ */
+function inline(content: string | InlineNode[]): InlineNode[] {
+  return typeof content === "string" ? [{ type: "text", content }] : content;
+}
+
+/**
+ * Builders for typed nodes, shaped like the nodes MarkdownParser produces
+ * (builders.card("Login", [builders.input("Email", { inputType: "email" })]))
+ */
+export const builders = {
+  header(level: number, content: string | InlineNode[], props: NodeProps<HeaderNode> = {}): HeaderNode {
+    return { type: "header", level, children: inline(content), ...props };
+  },
+
+  text(content: string | InlineNode[], props: NodeProps<TextNode> = {}): TextNode {
+    return typeof content === "string"
+      ? { type: "text", content, ...props }
+      : { type: "text", children: content, ...props };
+  },
+
+  bold(content: string | InlineNode[], props: NodeProps<BoldNode> = {}): BoldNode {
+    return typeof content === "string"
+      ? { type: "bold", content, ...props }
+      : { type: "bold", children: content, ...props };
+  },
+
+  italic(content: string | InlineNode[], props: NodeProps<ItalicNode> = {}): ItalicNode {
+    return typeof content === "string"
+      ? { type: "italic", content, ...props }
+      : { type: "italic", children: content, ...props };
+  },
+
+  strikethrough(content: string | InlineNode[], props: NodeProps<StrikethroughNode> = {}): StrikethroughNode {
+    return typeof content === "string"
+      ? { type: "strikethrough", content, ...props }
+      : { type: "strikethrough", children: content, ...props };
+  },
+
+  code(content: string, props: NodeProps<CodeNode> = {}): CodeNode {
+    return { type: "code", content, ...props };
+  },
+
+  link(content: string | InlineNode[], href: string, props: NodeProps<LinkNode> = {}): LinkNode {
+    return typeof content === "string"
+      ? { type: "link", href, content, ...props }
+      : { type: "link", href, children: content, ...props };
+  },
+
+  input(label: string, props: NodeProps<InputNode> = {}): InputNode {
+    return { type: "input", label, inputType: "text", ...props };
+  },
+
+  textarea(label: string, props: NodeProps<TextareaNode> = {}): TextareaNode {
+    return { type: "textarea", label, ...props };
+  },
+
+  dropdown(label: string, options?: string[], props: NodeProps<DropdownNode> = {}): DropdownNode {
+    return { type: "dropdown", label, ...(options && { options }), ...props };
+  },
+
+  checkbox(label: string, props: NodeProps<CheckboxNode> = {}): CheckboxNode {
+    return { type: "checkbox", label, ...props };
+  },
+
+  radioGroup(label: string, options: string[], props: NodeProps<RadioGroupNode> = {}): RadioGroupNode {
+    return { type: "radiogroup", label, options, ...props };
+  },
+
+  button(content: string, props: NodeProps<ButtonNode> = {}): ButtonNode {
+    return { type: "button", content, variant: "outline", ...props };
+  },
+
+  image(src: string, alt = "", props: NodeProps<ImageNode> = {}): ImageNode {
+    return { type: "image", alt, src, ...props };
+  },
+
+  table(headers: string[], rows: string[][], props: NodeProps<TableNode> = {}): TableNode {
+    return { type: "table", headers, rows, ...props };
+  },
+
+  list(items: ListItemNode[], props: NodeProps<ListNode> = {}): ListNode {
+    return { type: "list", ordered: false, children: items, ...props };
+  },
+
+  /**
+   * An item's text followed by its nested lists
+   */
+  listItem(content: string | InlineNode[], lists: ListNode[] = [], props: NodeProps<ListItemNode> = {}): ListItemNode {
+    return { type: "listItem", children: [...inline(content), ...lists], ...props };
+  },
+
+  card(
+    title: string | InlineNode[] | undefined,
+    children: ProtoNode[],
+    props: NodeProps<CardNode> = {}
+  ): CardNode {
+    return {
+      type: "card",
+      titleChildren: title === undefined ? undefined : inline(title),
+      children,
+      ...props,
+    };
+  },
+
+  container(children: ProtoNode[], props: NodeProps<ContainerNode> = {}): ContainerNode {
+    return { type: "container", children, ...props };
+  },
+
+  grid(gridConfig: string, children: ProtoNode[], props: NodeProps<GridNode> = {}): GridNode {
+    return { type: "grid", children, gridConfig, ...props };
+  },
+
+  div(children: ProtoNode[], props: NodeProps<DivNode> = {}): DivNode {
+    return { type: "div", children, ...props };
+  },
+
+  tabs(tabs: TabNode[], props: NodeProps<TabsNode> = {}): TabsNode {
+    return { type: "tabs", children: tabs, ...props };
+  },
+
+  tab(label: string, children: ProtoNode[], props: NodeProps<TabNode> = {}): TabNode {
+    return { type: "tab", label, children, ...props };
+  },
+
+  /**
+   * Without an initialScreen, the first screen is the initial one
+   */
+  workflow(screens: ScreenNode[], props: NodeProps<WorkflowNode> = {}): WorkflowNode {
+    return { type: "workflow", children: screens, initialScreen: screens[0]?.id, ...props };
+  },
+
+  screen(id: string, children: ProtoNode[], props: NodeProps<ScreenNode> = {}): ScreenNode {
+    return { type: "screen", id, children, ...props };
+  },
+
+  /**
+   * A plugin node, for parser plugins to return
+   * (builders.custom("status-pill", { content: "Active" }))
+   */
+  custom(kind: string, props: NodeProps<CustomNode> = {}): CustomNode {
+    return { type: "custom", kind, ...props };
+  },
+};
@@ -807,6 +807,110 @@ End of table`;
     expect(result.nodes[1].children?.[0].content).toBe('End of table');
   });
 
+  test('parses bulleted and numbered lists with nesting', () => {
+    const result = parser.parse(`- First *item*
+- Second
+  1. Step one
+  2. Step two
+    - Detail
+- Third`);
+
+    expect(result.nodes).toEqual([
+      {
+        type: 'list',
+        ordered: false,
+        children: [
+          {
+            type: 'listItem',
+            children: [
+              { type: 'text', content: 'First ' },
+              { type: 'bold', content: 'item' },
+            ],
+          },
+          {
+            type: 'listItem',
+            children: [
+              { type: 'text', content: 'Second' },
+              {
+                type: 'list',
+                ordered: true,
+                children: [
+                  { type: 'listItem', children: [{ type: 'text', content: 'Step one' }] },
+                  {
+                    type: 'listItem',
+                    children: [
+                      { type: 'text', content: 'Step two' },
+                      {
+                        type: 'list',
+                        ordered: false,
+                        children: [{ type: 'listItem', children: [{ type: 'text', content: 'Detail' }] }],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+          { type: 'listItem', children: [{ type: 'text', content: 'Third' }] },
+        ],
+      },
+    ]);
+  });
+
+  test('ends lists at other lines, blank lines and the other kind of marker', () => {
+    const result = parser.parse(`- a
+- b
+3. c
+4. d
+
+1. e
+Not an item
+-not an item
+[-- Tasks
+  - Inside a card
+--]`);
+
+    expect(result.nodes.map((node) => node.type)).toEqual(['list', 'list', 'list', 'text', 'text', 'card']);
+    expect(result.nodes[1]).toMatchObject({ ordered: true, start: 3 });
+    expect(result.nodes[1].children).toHaveLength(2);
+    expect(result.nodes[2].start).toBeUndefined();
+    expect(result.nodes[5].children?.[0]).toMatchObject({
+      type: 'list',
+      children: [{ type: 'listItem', children: [{ type: 'text', content: 'Inside a card' }] }],
+    });
+  });
+
+  test('applies a trailing attribute block to a list item', () => {
+    const result = parser.parse('- Overview {#overview .font-bold}\n- Uses {curly} braces\n- Kept \\{#literal}');
+    expect(result.nodes[0].children).toEqual([
+      {
+        type: 'listItem',
+        id: 'overview',
+        className: 'font-bold',
+        children: [{ type: 'text', content: 'Overview' }],
+      },
+      { type: 'listItem', children: [{ type: 'text', content: 'Uses {curly} braces' }] },
+      expect.objectContaining({ type: 'listItem' }),
+    ]);
+    expect(result.nodes[0].children?.[2].id).toBeUndefined();
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  test('records ranges for list items', () => {
+    const result = new MarkdownParser({ positions: true }).parse('- One\n  1. *Two*');
+    const list = result.nodes[0];
+    const item = list.children![0];
+    const nested = item.children![1];
+
+    expect(list.position).toEqual({ start: { line: 1, column: 1 }, end: { line: 2, column: 11 } });
+    expect(item.position).toEqual({ start: { line: 1, column: 1 }, end: { line: 2, column: 11 } });
+    expect(nested.children![0].position).toEqual({ start: { line: 2, column: 3 }, end: { line: 2, column: 11 } });
+    expect(nested.children![0].children![0].position).toEqual({
+      start: { line: 2, column: 6 },
+      end: { line: 2, column: 11 },
+    });
+  });
+
   // Note: Lines 103-104 in parser.ts are unreachable because parseLine() always returns
   // a node (defaulting to text type), so it never returns null. This is by design.
   // The strict mode error handling code is dead code that could be removed.
@@ -912,36 +1016,28 @@ End of table`;
     const result = parser.parse('This _ is _ not _ emphasis');
     expect(result.nodes).toHaveLength(1);
     expect(result.nodes[0].type).toBe('text');
-    expect(result.nodes[0].children).toHaveLength(5);
+    expect(result.nodes[0].children).toHaveLength(3);
     // The parser matches "_ is _" as italic, single underscore at end remains
     expect(result.nodes[0].children?.[0].type).toBe('text');
     expect(result.nodes[0].children?.[0].content).toBe('This ');
     expect(result.nodes[0].children?.[1].type).toBe('italic');
     expect(result.nodes[0].children?.[1].content).toBe(' is ');
     expect(result.nodes[0].children?.[2].type).toBe('text');
-    expect(result.nodes[0].children?.[2].content).toBe(' not ');
-    expect(result.nodes[0].children?.[3].type).toBe('text');
-    expect(result.nodes[0].children?.[3].content).toBe('_');
-    expect(result.nodes[0].children?.[4].type).toBe('text');
-    expect(result.nodes[0].children?.[4].content).toBe(' emphasis');
+    expect(result.nodes[0].children?.[2].content).toBe(' not _ emphasis');
   });
 
   test('handles single asterisk not forming emphasis', () => {
     const result = parser.parse('This * is * not * emphasis');
     expect(result.nodes).toHaveLength(1);
     expect(result.nodes[0].type).toBe('text');
-    expect(result.nodes[0].children).toHaveLength(5);
+    expect(result.nodes[0].children).toHaveLength(3);
     // The parser matches "* is *" as bold, single asterisk at end remains
     expect(result.nodes[0].children?.[0].type).toBe('text');
     expect(result.nodes[0].children?.[0].content).toBe('This ');
     expect(result.nodes[0].children?.[1].type).toBe('bold');
     expect(result.nodes[0].children?.[1].content).toBe(' is ');
     expect(result.nodes[0].children?.[2].type).toBe('text');
-    expect(result.nodes[0].children?.[2].content).toBe(' not ');
-    expect(result.nodes[0].children?.[3].type).toBe('text');
-    expect(result.nodes[0].children?.[3].content).toBe('*');
-    expect(result.nodes[0].children?.[4].type).toBe('text');
-    expect(result.nodes[0].children?.[4].content).toBe(' emphasis');
+    expect(result.nodes[0].children?.[2].content).toBe(' not * emphasis');
   });
 
   test('parses plain text without emphasis', () => {
@@ -1012,6 +1108,184 @@ Email ___
     expect(result.nodes[0].titleChildren?.[1].content).toBe(' Form');
   });
 
+  test('parses nested emphasis with recursive children', () => {
+    const result = parser.parse('*bold with _italic_ inside* and _outer *inner _deep_ inner* outer_');
+    expect(result.nodes[0].children).toEqual([
+      {
+        type: 'bold',
+        children: [
+          { type: 'text', content: 'bold with ' },
+          { type: 'italic', content: 'italic' },
+          { type: 'text', content: ' inside' },
+        ],
+      },
+      { type: 'text', content: ' and ' },
+      {
+        type: 'italic',
+        children: [
+          { type: 'text', content: 'outer ' },
+          {
+            type: 'bold',
+            children: [
+              { type: 'text', content: 'inner ' },
+              { type: 'italic', content: 'deep' },
+              { type: 'text', content: ' inner' },
+            ],
+          },
+          { type: 'text', content: ' outer' },
+        ],
+      },
+    ]);
+  });
+
+  test('parses bold italic written either way', () => {
+    const result = parser.parse('_*one*_ and *_two_* and a*_three_*b');
+    const boldItalic = (content: string) => ({ type: 'bold', children: [{ type: 'italic', content }] });
+    expect(result.nodes[0].children).toEqual([
+      boldItalic('one'),
+      { type: 'text', content: ' and ' },
+      boldItalic('two'),
+      { type: 'text', content: ' and a' },
+      boldItalic('three'),
+      { type: 'text', content: 'b' },
+    ]);
+  });
+
+  test('does not italicise underscores inside words', () => {
+    const result = parser.parse('snake_case_names, _real italic_ and foo_bar_ baz');
+    expect(result.nodes[0].children).toEqual([
+      { type: 'text', content: 'snake_case_names, ' },
+      { type: 'italic', content: 'real italic' },
+      { type: 'text', content: ' and foo_bar_ baz' },
+    ]);
+  });
+
+  test('merges adjacent plain text into one node spanning its range', () => {
+    const result = new MarkdownParser({ positions: true }).parse('a_b \\* *c_d* e');
+    const [text, bold, rest] = result.nodes[0].children || [];
+
+    expect(text).toEqual({
+      type: 'text',
+      content: 'a_b * ',
+      position: { start: { line: 1, column: 1 }, end: { line: 1, column: 8 } },
+    });
+    expect(bold).toMatchObject({ type: 'bold', content: 'c_d' });
+    expect(rest).toMatchObject({ type: 'text', content: ' e' });
+  });
+
+  test('leaves unmatched and crossing markers as text', () => {
+    const result = parser.parse('*a _b* c_ and *open');
+    expect(result.nodes[0].children).toEqual([
+      { type: 'bold', content: 'a _b' },
+      { type: 'text', content: ' c_ and *open' },
+    ]);
+  });
+
+  test('parses formatting inside links and strikethrough', () => {
+    const result = parser.parse('[the *docs*](/docs) ~~old _price_~~');
+    expect(result.nodes[0].children).toEqual([
+      {
+        type: 'link',
+        href: '/docs',
+        children: [
+          { type: 'text', content: 'the ' },
+          { type: 'bold', content: 'docs' },
+        ],
+      },
+      { type: 'text', content: ' ' },
+      {
+        type: 'strikethrough',
+        children: [
+          { type: 'text', content: 'old ' },
+          { type: 'italic', content: 'price' },
+        ],
+      },
+    ]);
+  });
+
+  test('parses links, inline code and strikethrough', () => {
+    const result = parser.parse('Read the [Terms](/terms), run `npm i *x*` and ~~skip~~ this');
+    expect(result.nodes[0].children).toEqual([
+      { type: 'text', content: 'Read the ' },
+      { type: 'link', content: 'Terms', href: '/terms' },
+      { type: 'text', content: ', run ' },
+      { type: 'code', content: 'npm i *x*' },
+      { type: 'text', content: ' and ' },
+      { type: 'strikethrough', content: 'skip' },
+      { type: 'text', content: ' this' },
+    ]);
+  });
+
+  test('leaves unmatched link, code and tilde markers as text', () => {
+    const result = parser.parse('A [note] with `tick and ~~~ fences ~~~');
+    expect(result.nodes[0].children).toEqual([
+      { type: 'text', content: 'A [note] with `tick and ~~~ fences ~~~' },
+    ]);
+  });
+
+  test('parses backslash escapes in inline text', () => {
+    const result = parser.parse('\\*not bold\\* and *a \\* b* or \\[x](y) \\\\ \\d');
+    expect(result.nodes[0].children).toEqual([
+      { type: 'text', content: '*not bold* and ' },
+      { type: 'bold', content: 'a * b' },
+      { type: 'text', content: ' or [x](y) \\ \\d' },
+    ]);
+  });
+
+  test('parses escaped line syntax as literal content', () => {
+    const result = parser.parse(`Total: \\___
+\\[not a button]
+\\# Count ___
+Price \\* ___ Notes \\|___| |___|
+Size __> [Small, Medium\\, Large, X\\]L]
+[Save \\] now -> next\\]step]
+![a\\]b](logo\\).png)
+| Op | Means |
+|----|-------|
+| a \\| b | either |`);
+
+    expect(result.nodes[0].children).toEqual([{ type: 'text', content: 'Total: ___' }]);
+    expect(result.nodes[1]).toEqual({
+      type: 'text',
+      children: [{ type: 'text', content: '[not a button]' }],
+    });
+    expect(result.nodes[2]).toEqual({ type: 'input', label: '# Count', inputType: 'text' });
+    expect(result.nodes[3].children).toEqual([
+      { type: 'input', label: 'Price *', inputType: 'text' },
+      { type: 'textarea', label: 'Notes |___|' },
+    ]);
+    expect(result.nodes[4].options).toEqual(['Small', 'Medium, Large', 'X]L']);
+    expect(result.nodes[5]).toEqual({
+      type: 'button',
+      content: 'Save ] now',
+      variant: 'outline',
+      navigateTo: 'next]step',
+    });
+    expect(result.nodes[6]).toEqual({ type: 'image', alt: 'a]b', src: 'logo).png' });
+    expect(result.nodes[7].rows).toEqual([['a | b', 'either']]);
+  });
+
+  test('parses inline formatting and links in checkbox labels', () => {
+    const result = parser.parse('I accept the [Terms](/terms) __[]\nRemember *me* __[x] Email ___');
+    expect(result.nodes[0]).toEqual({
+      type: 'checkbox',
+      label: 'I accept the Terms',
+      labelChildren: [
+        { type: 'text', content: 'I accept the ' },
+        { type: 'link', content: 'Terms', href: '/terms' },
+      ],
+    });
+    expect(result.nodes[1].children?.[0]).toEqual({
+      type: 'checkbox',
+      label: 'Remember me',
+      checked: true,
+      labelChildren: [
+        { type: 'text', content: 'Remember ' },
+        { type: 'bold', content: 'me' },
+      ],
+    });
+  });
+
   // Image tests
   test('parses image with alt text', () => {
     const result = parser.parse('![Logo image](https://example.com/logo.png)');
@@ -1591,5 +1865,852 @@ Email ___ Remember me __[]
     expect(result.nodes[0].children?.[1].navigateTo).toBeUndefined();
     expect(result.nodes[0].children?.[2].navigateTo).toBe('home');
   });
+
+  // Source position tests
+  test('does not record positions by default', () => {
+    const result = parser.parse('# Header');
+    expect(result.nodes[0].position).toBeUndefined();
+  });
+
+  test('records line and column ranges for line-level nodes', () => {
+    const positionParser = new MarkdownParser({ positions: true });
+    const result = positionParser.parse(`# Header
+
+  Email ___`);
+
+    expect(result.nodes[0].position).toEqual({
+      start: { line: 1, column: 1 },
+      end: { line: 1, column: 9 },
+    });
+    expect(result.nodes[0].children?.[0].position).toEqual({
+      start: { line: 1, column: 3 },
+      end: { line: 1, column: 9 },
+    });
+    expect(result.nodes[1].position).toEqual({
+      start: { line: 3, column: 3 },
+      end: { line: 3, column: 12 },
+    });
+  });
+
+  test('records ranges for grouped fields and buttons', () => {
+    const positionParser = new MarkdownParser({ positions: true });
+    const result = positionParser.parse(`Name ___ Email ___
+[(Save)] [Cancel -> home]`);
+
+    expect(result.nodes[0].children?.[1].position).toEqual({
+      start: { line: 1, column: 10 },
+      end: { line: 1, column: 19 },
+    });
+    expect(result.nodes[1].children?.[0].position).toEqual({
+      start: { line: 2, column: 1 },
+      end: { line: 2, column: 9 },
+    });
+    expect(result.nodes[1].children?.[1].position).toEqual({
+      start: { line: 2, column: 10 },
+      end: { line: 2, column: 26 },
+    });
+  });
+
+  test('records ranges for inline emphasis', () => {
+    const positionParser = new MarkdownParser({ positions: true });
+    const result = positionParser.parse('Some *bold* and _*both*_');
+    const children = result.nodes[0].children;
+
+    expect(children?.[1].position).toEqual({
+      start: { line: 1, column: 6 },
+      end: { line: 1, column: 12 },
+    });
+    expect(children?.[3].position).toEqual({
+      start: { line: 1, column: 17 },
+      end: { line: 1, column: 25 },
+    });
+    expect(children?.[3].children?.[0].position).toEqual({
+      start: { line: 1, column: 19 },
+      end: { line: 1, column: 23 },
+    });
+  });
+
+  test('records ranges for nested emphasis', () => {
+    const positionParser = new MarkdownParser({ positions: true });
+    const [bold] = positionParser.parse('*a _b_ c*').nodes[0].children || [];
+
+    expect(bold.position).toEqual({
+      start: { line: 1, column: 1 },
+      end: { line: 1, column: 10 },
+    });
+    expect(bold.children?.[1].position).toEqual({
+      start: { line: 1, column: 4 },
+      end: { line: 1, column: 7 },
+    });
+  });
+
+  test('records block ranges from opener to closer', () => {
+    const positionParser = new MarkdownParser({ positions: true });
+    const result = positionParser.parse(`[workflow
+  [screen home
+    [-- *Welcome*
+      | A | B |
+      | 1 | 2 |
+    --]
+    [grid cols-2
+      Text
+    ]
+  ]
+]`);
+
+    const workflow = result.nodes[0];
+    const screen = workflow.children?.[0];
+    const card = screen?.children?.[0];
+    const grid = screen?.children?.[1];
+
+    expect(workflow.position).toEqual({
+      start: { line: 1, column: 1 },
+      end: { line: 11, column: 2 },
+    });
+    expect(screen?.position).toEqual({
+      start: { line: 2, column: 3 },
+      end: { line: 10, column: 4 },
+    });
+    expect(card?.position).toEqual({
+      start: { line: 3, column: 5 },
+      end: { line: 6, column: 8 },
+    });
+    expect(card?.titleChildren?.[0].position).toEqual({
+      start: { line: 3, column: 9 },
+      end: { line: 3, column: 18 },
+    });
+    expect(card?.children?.[0].position).toEqual({
+      start: { line: 4, column: 7 },
+      end: { line: 5, column: 16 },
+    });
+    expect(grid?.position).toEqual({
+      start: { line: 7, column: 5 },
+      end: { line: 9, column: 6 },
+    });
+  });
+
+  // Diagnostics tests
+  test('returns no diagnostics for valid documents', () => {
+    const result = parser.parse(`[-- Card
+Email ___
+--]`);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.errors).toBeUndefined();
+  });
+
+  test('reports unclosed card with range', () => {
+    const result = parser.parse(`# Title
+[-- Profile
+Email ___`);
+    expect(result.diagnostics).toEqual([
+      {
+        code: 'unclosed-card',
+        severity: 'error',
+        message: 'Card is missing its closing --]',
+        range: {
+          start: { line: 2, column: 1 },
+          end: { line: 2, column: 12 },
+        },
+      },
+    ]);
+    expect(result.errors).toEqual(['Line 2: Card is missing its closing --]']);
+  });
+
+  test('reports and skips stray closers', () => {
+    const result = parser.parse(`Hello
+--]
+[grid cols-2
+Text
+]
+]`);
+    expect(result.nodes).toHaveLength(2);
+    expect(result.nodes[1].type).toBe('grid');
+    expect(result.nodes[1].children).toHaveLength(1);
+    expect(result.diagnostics.map((d) => [d.code, d.range?.start.line])).toEqual([
+      ['stray-card-closer', 2],
+      ['stray-block-closer', 6],
+    ]);
+  });
+
+  test('closes a card at a mismatched block closer', () => {
+    const result = parser.parse(`[-- Card
+Text
+]
+After`);
+    expect(result.nodes).toHaveLength(2);
+    expect(result.nodes[0].children).toHaveLength(1);
+    expect(result.nodes[1].type).toBe('text');
+    expect(result.diagnostics.map((d) => [d.code, d.range?.start.line])).toEqual([
+      ['mismatched-closer', 3],
+    ]);
+    expect(result.diagnostics[0].message).toBe(
+      'Found ] closing the card opened on line 1, which closes with --]'
+    );
+  });
+
+  test('closes a grid at a mismatched card closer', () => {
+    const result = parser.parse(`[grid cols-2
+Text
+--]
+After`);
+    expect(result.nodes).toHaveLength(2);
+    expect(result.nodes[0].type).toBe('grid');
+    expect(result.nodes[0].children).toHaveLength(1);
+    expect(result.diagnostics.map((d) => [d.code, d.range?.start.line])).toEqual([
+      ['mismatched-closer', 3],
+    ]);
+    expect(result.diagnostics[0].message).toBe(
+      'Found --] closing the grid opened on line 1, which closes with ]'
+    );
+  });
+
+  test('reports misspelled container keywords', () => {
+    const result = parser.parse(`[grdi cols-2
+Text
+]
+[ flex gap-2
+Text
+]`);
+    expect(result.nodes[0].type).toBe('div');
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0].code).toBe('unknown-container-keyword');
+    expect(result.diagnostics[0].message).toContain('"grid"');
+  });
+
+  test('parses screens outside workflows with a warning', () => {
+    const result = parser.parse(`[-- Card
+[screen home
+Text
+]
+--]`);
+    expect(result.nodes[0].children?.[0].type).toBe('screen');
+    expect(result.nodes[0].children?.[0].id).toBe('home');
+    expect(result.diagnostics[0].code).toBe('screen-outside-workflow');
+  });
+
+  test('reports workflow content outside screens', () => {
+    const result = parser.parse(`[workflow
+Stray text
+[screen home
+Text
+]
+]`);
+    expect(result.nodes[0].children).toHaveLength(1);
+    expect(result.diagnostics[0].code).toBe('content-outside-screen');
+    expect(result.diagnostics[0].range?.start.line).toBe(2);
+  });
+
+  test('parses tabs with their tab sections', () => {
+    const result = parser.parse(`[tabs {#settings .w-full}
+  [tab Account
+    Name ___
+    - Shown on your profile
+  ]
+  [tab Billing \\& plans {.p-4}
+    [grid cols-2
+      [(Upgrade)]
+    ]
+  ]
+]`);
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.nodes).toEqual([
+      {
+        type: 'tabs',
+        id: 'settings',
+        className: 'w-full',
+        children: [
+          {
+            type: 'tab',
+            label: 'Account',
+            children: [
+              { type: 'input', label: 'Name', inputType: 'text' },
+              {
+                type: 'list',
+                ordered: false,
+                children: [{ type: 'listItem', children: [{ type: 'text', content: 'Shown on your profile' }] }],
+              },
+            ],
+          },
+          {
+            type: 'tab',
+            label: 'Billing & plans',
+            className: 'p-4',
+            children: [
+              {
+                type: 'grid',
+                gridConfig: 'cols-2',
+                children: [{ type: 'button', content: 'Upgrade', variant: 'default' }],
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  test('reports tabs content outside tabs and tabs outside tabs blocks', () => {
+    const result = parser.parse(`[tabs
+Stray text
+[tab One
+Text
+]
+]
+[-- Card
+[tab Two
+Text
+]
+--]
+[tab Three]`);
+    expect(result.nodes[0].children).toHaveLength(1);
+    expect(result.nodes[1].children?.[0]).toMatchObject({ type: 'tab', label: 'Two' });
+    expect(result.nodes[2]).toMatchObject({ type: 'button', content: 'tab Three' });
+    expect(result.diagnostics.map((d) => [d.code, d.range?.start.line])).toEqual([
+      ['content-outside-tab', 2],
+      ['tab-outside-tabs', 8],
+    ]);
+  });
+
+  test('closes an unclosed tab at the next tab', () => {
+    const result = parser.parse(`[tabs
+  [tab One
+    First
+  [tab Two
+    Second
+  ]
+]
+After`);
+    expect(result.nodes.map((node) => node.type)).toEqual(['tabs', 'text']);
+    expect(result.nodes[0].children?.map((tab) => tab.label)).toEqual(['One', 'Two']);
+    expect(result.diagnostics.map((d) => [d.code, d.range?.start.line])).toEqual([['unclosed-tab', 2]]);
+  });
+
+  test('recovers dropdown and radio group with malformed options', () => {
+    const result = parser.parse(`Role __> [Admin, User
+Plan __() []
+Size __> [ , ]`);
+    expect(result.nodes[0]).toEqual({
+      type: 'dropdown',
+      label: 'Role',
+      options: ['Admin', 'User'],
+    });
+    expect(result.nodes[1]).toEqual({
+      type: 'radiogroup',
+      label: 'Plan',
+      options: [],
+    });
+    expect(result.nodes[2].type).toBe('dropdown');
+    expect(result.diagnostics.map((d) => d.code)).toEqual([
+      'malformed-options',
+      'empty-options',
+      'empty-options',
+    ]);
+  });
+
+  test('reports table rows with mismatched cell counts', () => {
+    const result = parser.parse(`[-- Card
+| A | B |
+|---|---|
+| 1 | 2 | 3 |
+--]`);
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0].code).toBe('table-column-mismatch');
+    expect(result.diagnostics[0].severity).toBe('warning');
+    expect(result.diagnostics[0].range?.start.line).toBe(4);
+  });
+
+  test('strict mode reports warnings as errors', () => {
+    const strictParser = new MarkdownParser({ strict: true });
+    const result = strictParser.parse(`Text
+]`);
+    expect(result.diagnostics[0].severity).toBe('error');
+    expect(result.errors).toEqual([
+      'Line 2: Found ] without an open grid, div, screen or workflow',
+    ]);
+  });
+
+  // Unclosed and mismatched block tests
+  test('recovers unclosed indented card at the next dedented line', () => {
+    const result = parser.parse(`[-- Profile
+  Email ___
+  Password __*
+# After the card
+Footer text`);
+
+    expect(result.nodes).toHaveLength(3);
+    expect(result.nodes[0].type).toBe('card');
+    expect(result.nodes[0].children).toHaveLength(2);
+    expect(result.nodes[1].type).toBe('header');
+    expect(result.nodes[2].type).toBe('text');
+    expect(result.diagnostics.map((d) => d.code)).toEqual(['unclosed-card']);
+  });
+
+  test('recovers nested unclosed indented blocks without parsing them again', () => {
+    const depth = 30;
+    const openers = Array.from({ length: depth }, (_, i) => `${'  '.repeat(i)}[ flex`);
+    const texts = Array.from({ length: depth }, (_, i) => `${'  '.repeat(depth - i)}Text`);
+    const result = parser.parse(`${openers.join('\n')}
+${texts.join('\n')}
+After`);
+
+    expect(result.nodes).toHaveLength(2);
+    expect(result.nodes[1].type).toBe('text');
+    let node = result.nodes[0];
+    for (let i = 1; i < depth; i++) {
+      expect(node.children?.map((child) => child.type)).toEqual(['div', 'text']);
+      node = node.children![0];
+    }
+    expect(node.children?.map((child) => child.type)).toEqual(['text']);
+    expect(result.diagnostics.map((d) => d.code)).toEqual(
+      Array(depth).fill('unclosed-div')
+    );
+  });
+
+  test('unclosed unindented card swallows the rest of the document', () => {
+    const result = parser.parse(`[-- Profile
+Email ___
+# Header`);
+
+    expect(result.nodes).toHaveLength(1);
+    expect(result.nodes[0].children).toHaveLength(2);
+    expect(result.diagnostics.map((d) => d.code)).toEqual(['unclosed-card']);
+  });
+
+  test('reports unclosed grids, divs and workflows', () => {
+    const grid = parser.parse(`[grid cols-2
+  Text
+Outside`);
+    expect(grid.nodes).toHaveLength(2);
+    expect(grid.diagnostics[0].code).toBe('unclosed-grid');
+    expect(grid.diagnostics[0].message).toBe('Grid is missing its closing ]');
+
+    const div = parser.parse(`[ flex
+  Text`);
+    expect(div.nodes).toHaveLength(1);
+    expect(div.diagnostics[0].code).toBe('unclosed-div');
+
+    const workflow = parser.parse(`[workflow
+  [screen home
+    Text
+  ]`);
+    expect(workflow.nodes[0].children).toHaveLength(1);
+    expect(
+      workflow.diagnostics.filter((d) => d.severity !== 'info').map((d) => d.code)
+    ).toEqual(['unclosed-workflow']);
+  });
+
+  test('closes an unclosed screen at the next screen of the workflow', () => {
+    const result = parser.parse(`[workflow
+[screen home
+Welcome
+[screen login
+Email ___
+]
+]`);
+
+    const screens = result.nodes[0].children;
+    expect(screens).toHaveLength(2);
+    expect(screens?.[0].id).toBe('home');
+    expect(screens?.[0].children).toHaveLength(1);
+    expect(screens?.[1].id).toBe('login');
+    const errors = result.diagnostics.filter((d) => d.severity === 'error');
+    expect(errors).toHaveLength(1);
+    expect(errors[0].code).toBe('unclosed-screen');
+    expect(errors[0].range?.start.line).toBe(2);
+  });
+
+  test('block closer inside a card in a grid closes the grid', () => {
+    const result = parser.parse(`[grid cols-2
+[-- Card
+Text
+]
+After grid`);
+
+    expect(result.nodes).toHaveLength(2);
+    expect(result.nodes[0].type).toBe('grid');
+    expect(result.nodes[0].children?.[0].type).toBe('card');
+    expect(result.nodes[0].children?.[0].children).toHaveLength(1);
+    expect(result.nodes[1].type).toBe('text');
+    expect(result.diagnostics.map((d) => [d.code, d.range?.start.line])).toEqual([
+      ['unclosed-card', 2],
+      ['mismatched-closer', 4],
+    ]);
+    expect(result.diagnostics[1].message).toBe(
+      'Found ] while the card opened on line 2 is still open'
+    );
+  });
+
+  test('card closer inside a grid in a card closes the card', () => {
+    const positionParser = new MarkdownParser({ positions: true });
+    const result = positionParser.parse(`[-- Card
+[grid cols-2
+Text
+--]
+After card`);
+
+    expect(result.nodes).toHaveLength(2);
+    expect(result.nodes[0].children?.[0].type).toBe('grid');
+    expect(result.nodes[0].children?.[0].position?.end.line).toBe(3);
+    expect(result.nodes[0].position?.end.line).toBe(4);
+    expect(result.nodes[1].type).toBe('text');
+    expect(result.diagnostics.map((d) => d.code)).toEqual([
+      'unclosed-grid',
+      'mismatched-closer',
+    ]);
+  });
+
+  // Workflow navigation validation tests
+  test('reports no navigation problems for a connected workflow', () => {
+    const result = parser.parse(`[workflow
+[screen home
+[(Login) -> login]
+]
+[screen login
+[Back -> home]
+]
+]`);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  test('reports unknown navigation targets with the button range', () => {
+    const positionParser = new MarkdownParser({ positions: true });
+    const result = positionParser.parse(`[workflow
+  [screen home
+    [(Next) -> dashbord]
+  ]
+]`);
+    const diagnostic = result.diagnostics.find(
+      (d) => d.code === 'unknown-navigation-target'
+    );
+    expect(diagnostic).toEqual({
+      code: 'unknown-navigation-target',
+      severity: 'error',
+      message: 'Button "Next" navigates to unknown screen "dashbord"',
+      range: {
+        start: { line: 3, column: 5 },
+        end: { line: 3, column: 25 },
+      },
+    });
+  });
+
+  test('reports duplicate, unreachable and dead-end screens', () => {
+    const result = parser.parse(`[workflow
+[screen home
+[Next -> done]
+]
+[screen done
+Finished
+]
+[screen orphan
+[Home -> home]
+]
+[screen done
+Duplicate
+]
+]`);
+    expect(result.diagnostics.map((d) => [d.code, d.severity])).toEqual([
+      ['duplicate-screen-id', 'error'],
+      ['dead-end-screen', 'info'],
+      ['unreachable-screen', 'warning'],
+    ]);
+    expect(result.diagnostics[2].message).toBe(
+      'Screen "orphan" cannot be reached from the initial screen "home"'
+    );
+    // Ranges are reported without the positions option
+    expect(result.diagnostics.map((d) => d.range)).toEqual([
+      { start: { line: 11, column: 1 }, end: { line: 13, column: 2 } },
+      { start: { line: 5, column: 1 }, end: { line: 7, column: 2 } },
+      { start: { line: 8, column: 1 }, end: { line: 10, column: 2 } },
+    ]);
+    expect(result.nodes[0].children?.[0].position).toBeUndefined();
+  });
+
+  test('follows navigation buttons nested in cards and grids', () => {
+    const result = parser.parse(`[workflow
+[screen home
+[-- Card
+[grid cols-2
+[(Go) -> next]
+]
+--]
+]
+[screen next
+[Back -> home]
+]
+]`);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  test('reports navigation buttons outside workflows', () => {
+    const result = parser.parse(`[-- Card
+[(Save) -> done][Cancel]
+--]`);
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0].code).toBe('navigation-outside-workflow');
+    expect(result.diagnostics[0].severity).toBe('warning');
+    expect(result.diagnostics[0].range).toEqual({
+      start: { line: 2, column: 1 },
+      end: { line: 2, column: 17 },
+    });
+  });
+
+  test('reports workflows without screens', () => {
+    const result = parser.parse(`[workflow
+]`);
+    expect(result.diagnostics.map((d) => d.code)).toEqual(['empty-workflow']);
+    expect(result.diagnostics[0].range).toEqual({
+      start: { line: 1, column: 1 },
+      end: { line: 2, column: 2 },
+    });
+  });
+
+  // Workflow header attribute tests
+  test('parses start and name attributes in workflow header', () => {
+    const result = parser.parse(`[workflow start=login name="Customer Onboarding"
+[screen welcome
+[Login -> login]
+]
+[screen login
+[Back -> welcome]
+]
+]`);
+    expect(result.nodes[0].initialScreen).toBe('login');
+    expect(result.nodes[0].name).toBe('Customer Onboarding');
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  test('accepts a closing bracket on the workflow header', () => {
+    const result = parser.parse(`[workflow start=b name=Onboarding]
+[screen a
+[Next -> b]
+]
+[screen b
+[Back -> a]
+]
+]`);
+    expect(result.nodes).toHaveLength(1);
+    expect(result.nodes[0].name).toBe('Onboarding');
+    expect(result.nodes[0].initialScreen).toBe('b');
+    expect(result.nodes[0].children).toHaveLength(2);
+  });
+
+  test('reports unknown workflow attributes and start screens', () => {
+    const positionParser = new MarkdownParser({ positions: true });
+    const result = positionParser.parse(`[workflow begin=home start=missing
+[screen home
+Text
+]
+]`);
+    expect(result.diagnostics.map((d) => d.code)).toEqual([
+      'unknown-workflow-attribute',
+      'dead-end-screen',
+      'unknown-initial-screen',
+    ]);
+    expect(result.diagnostics[0].range).toEqual({
+      start: { line: 1, column: 11 },
+      end: { line: 1, column: 21 },
+    });
+  });
+
+  test('parses input types and validation from field annotations', () => {
+    const result = parser.parse(`Email ___ {email required}
+Age ___ {number min=18 max=120}
+Zip ___ {pattern="[0-9]{5}" minlength=5 maxlength=5}
+Bio |___| {maxlength=500}
+Role __> [Admin, User] {required}
+Terms __[] {required}`);
+    expect(result.nodes).toEqual([
+      { type: 'input', label: 'Email', inputType: 'email', validation: { required: true } },
+      { type: 'input', label: 'Age', inputType: 'number', validation: { min: 18, max: 120 } },
+      {
+        type: 'input',
+        label: 'Zip',
+        inputType: 'text',
+        validation: { pattern: '[0-9]{5}', minLength: 5, maxLength: 5 },
+      },
+      { type: 'textarea', label: 'Bio', validation: { maxLength: 500 } },
+      { type: 'dropdown', label: 'Role', options: ['Admin', 'User'], validation: { required: true } },
+      { type: 'checkbox', label: 'Terms', validation: { required: true } },
+    ]);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  test('parses annotations on multiple fields in one line', () => {
+    const result = parser.parse('Phone ___ {tel required} Website ___ {url}');
+    expect(result.nodes[0].children).toEqual([
+      { type: 'input', label: 'Phone', inputType: 'tel', validation: { required: true } },
+      { type: 'input', label: 'Website', inputType: 'url' },
+    ]);
+  });
+
+  test('keeps date bounds as strings', () => {
+    const result = parser.parse('Start ___ {date min=2024-01-01}');
+    expect(result.nodes[0]).toEqual({
+      type: 'input',
+      label: 'Start',
+      inputType: 'date',
+      validation: { min: '2024-01-01' },
+    });
+  });
+
+  test('reports unknown and invalid field attributes', () => {
+    const positionParser = new MarkdownParser({ positions: true });
+    const result = positionParser.parse(`Email ___ {emial required}
+Bio |___| {number minlength=abc}`);
+    expect(result.diagnostics.map((d) => [d.code, d.severity])).toEqual([
+      ['unknown-field-attribute', 'warning'],
+      ['invalid-field-attribute', 'warning'],
+      ['invalid-field-attribute', 'warning'],
+    ]);
+    expect(result.diagnostics[0].range).toEqual({
+      start: { line: 1, column: 12 },
+      end: { line: 1, column: 17 },
+    });
+    expect(result.nodes[0].validation).toEqual({ required: true });
+    expect(result.nodes[1].position).toEqual({
+      start: { line: 2, column: 1 },
+      end: { line: 2, column: 33 },
+    });
+  });
+
+  test('leaves braces on non-field lines as text', () => {
+    const result = parser.parse('Use {curly} braces');
+    expect(result.nodes[0].type).toBe('text');
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  test('parses placeholders, default values and help text', () => {
+    const result = parser.parse(`Email ___ {email placeholder="you@example.com" help="We never share it"}
+Name ___ {value="Jane Doe"}
+Country __> [USA, Canada] {value=canada placeholder="Pick one"}
+Plan __() [Free, Pro] {value=Pro}
+Remember me __[x]`);
+    expect(result.nodes).toEqual([
+      {
+        type: 'input',
+        label: 'Email',
+        inputType: 'email',
+        placeholder: 'you@example.com',
+        helpText: 'We never share it',
+      },
+      { type: 'input', label: 'Name', inputType: 'text', defaultValue: 'Jane Doe' },
+      {
+        type: 'dropdown',
+        label: 'Country',
+        options: ['USA', 'Canada'],
+        defaultValue: 'Canada',
+        placeholder: 'Pick one',
+      },
+      { type: 'radiogroup', label: 'Plan', options: ['Free', 'Pro'], defaultValue: 'Pro' },
+      { type: 'checkbox', label: 'Remember me', checked: true },
+    ]);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  test('parses pre-checked checkboxes in multi-field lines', () => {
+    const result = parser.parse('Newsletter __[x] Terms __[]');
+    expect(result.nodes[0].children).toEqual([
+      { type: 'checkbox', label: 'Newsletter', checked: true },
+      { type: 'checkbox', label: 'Terms' },
+    ]);
+  });
+
+  test('reports default values that are not an option', () => {
+    const result = parser.parse('Plan __() [Free, Pro] {value=Gold}');
+    expect(result.nodes[0].defaultValue).toBeUndefined();
+    expect(result.diagnostics.map((d) => d.code)).toEqual(['invalid-field-attribute']);
+  });
+
+  test('parses attribute blocks on line elements', () => {
+    const result = parser.parse(`# Welcome {#title .text-center}
+[(Save) | w-full] {#save data-track=signup tabindex=2 autofocus=true}
+![Logo](logo.png) {.h-8 alt-text="Company logo"}`);
+    expect(result.nodes).toEqual([
+      {
+        type: 'header',
+        level: 1,
+        children: [{ type: 'text', content: 'Welcome' }],
+        id: 'title',
+        className: 'text-center',
+      },
+      {
+        type: 'button',
+        content: 'Save',
+        variant: 'default',
+        className: 'w-full',
+        id: 'save',
+        attributes: { 'data-track': 'signup', tabindex: 2, autofocus: true },
+      },
+      {
+        type: 'image',
+        alt: 'Logo',
+        src: 'logo.png',
+        className: 'h-8',
+        attributes: { 'alt-text': 'Company logo' },
+      },
+    ]);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  test('parses attribute blocks on block openers', () => {
+    const result = parser.parse(`[-- Login {#login .max-w-md}
+Email ___ {#login-email .col-span-2 email autocomplete=email}
+--]
+[grid cols-2 gap-4 {#layout}
+]
+[ flex gap-2 {.mt-4}
+]
+[workflow {#onboarding}
+[screen home {.p-4}
+Hello
+]
+]`);
+    const [card, grid, div, workflow] = result.nodes;
+    expect(card).toMatchObject({
+      type: 'card',
+      titleChildren: [{ type: 'text', content: 'Login' }],
+      id: 'login',
+      className: 'max-w-md',
+    });
+    expect(card.children?.[0]).toEqual({
+      type: 'input',
+      label: 'Email',
+      inputType: 'email',
+      id: 'login-email',
+      className: 'col-span-2',
+      attributes: { autocomplete: 'email' },
+    });
+    expect(grid).toMatchObject({ type: 'grid', gridConfig: 'cols-2 gap-4', id: 'layout' });
+    expect(div).toMatchObject({ type: 'div', className: 'flex gap-2 mt-4' });
+    expect(workflow).toMatchObject({ type: 'workflow', id: 'onboarding', initialScreen: 'home' });
+    expect(workflow.children?.[0]).toMatchObject({ type: 'screen', id: 'home', className: 'p-4' });
+  });
+
+  test('applies a trailing block to the last field of a multi-field line', () => {
+    const result = parser.parse('First ___ {#first} Last ___ {#last required}');
+    expect(result.nodes[0].children).toEqual([
+      { type: 'input', label: 'First', inputType: 'text', id: 'first' },
+      { type: 'input', label: 'Last', inputType: 'text', id: 'last', validation: { required: true } },
+    ]);
+  });
+
+  test('rejects an #id attribute on a screen', () => {
+    const result = parser.parse(`[workflow
+[screen home {#start}
+Hello
+]
+]`);
+    expect(result.nodes[0].children?.[0].id).toBe('home');
+    expect(result.diagnostics.map((d) => d.code)).toContain('invalid-attribute');
+  });
+
+  test('rejects event handler attributes', () => {
+    const result = parser.parse('Hello {onclick="alert(1)" data-x=1}');
+    expect(result.nodes[0]).toMatchObject({ type: 'text', attributes: { 'data-x': 1 } });
+    expect(result.nodes[0].attributes).not.toHaveProperty('onclick');
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ code: 'invalid-attribute', severity: 'warning' }),
+    ]);
+  });
 });
 
@@ -0,0 +1,216 @@
+import { MarkdownFormatter } from './MarkdownFormatter';
+import { MarkdownParser } from './MarkdownParser';
+import { MarkdownPrinter } from './MarkdownPrinter';
+import { builders } from './nodes';
+import { ParserPlugin } from './types';
+
+describe('parser plugins', () => {
+  const widgets: ParserPlugin = {
+    name: 'widgets',
+    lines: [
+      {
+        pattern: /^@status\s+(\w+)$/,
+        parse: (match) => builders.custom('status-pill', { content: match[1] }),
+      },
+      {
+        // Declines labels it does not know, leaving them to the built-in syntax
+        pattern: /^(.+) ___$/,
+        parse: (match) =>
+          match[1] === 'Amount' ? builders.custom('money-input', { content: match[1] }) : null,
+      },
+    ],
+    blocks: [
+      {
+        name: 'kpi',
+        opener: /^\[kpi\s+(.+)$/,
+        parse: (match, children, context) => ({
+          type: 'custom',
+          kind: 'kpi',
+          children: [{ type: 'text', children: context.parseInline(match[1]) }, ...children],
+        }),
+      },
+      {
+        name: 'panel',
+        opener: /^\[==\s*(.*)$/,
+        closer: '--]',
+        parse: (match, children) => ({ type: 'custom', kind: 'panel', content: match[1], children }),
+      },
+    ],
+    inlines: [
+      {
+        marker: '{{',
+        pattern: /\{\{pill (.+?)\}\}/,
+        parse: (match) => builders.custom('pill', { content: match[1] }),
+      },
+    ],
+  };
+
+  let parser: MarkdownParser;
+
+  beforeEach(() => {
+    parser = new MarkdownParser({ plugins: [widgets] });
+  });
+
+  test('parses plugin lines before the built-in syntax', () => {
+    const { nodes } = parser.parse('@status Active {#status .ml-2}\nAmount ___\nEmail ___');
+    expect(nodes).toEqual([
+      { type: 'custom', kind: 'status-pill', content: 'Active', id: 'status', className: 'ml-2' },
+      { type: 'custom', kind: 'money-input', content: 'Amount' },
+      { type: 'input', label: 'Email', inputType: 'text' },
+    ]);
+  });
+
+  test('parses plugin blocks with their content', () => {
+    const { nodes, diagnostics } = parser.parse(`[-- Sales
+  [kpi *Revenue* {.w-1/2}
+    # $12,400
+    [Details]
+  ]
+  [== Notes
+    Up 4% on last month
+  --]
+--]`);
+
+    expect(diagnostics).toEqual([]);
+    expect(nodes[0].children).toEqual([
+      {
+        type: 'custom',
+        kind: 'kpi',
+        className: 'w-1/2',
+        children: [
+          { type: 'text', children: [{ type: 'bold', content: 'Revenue' }] },
+          { type: 'header', level: 1, children: [{ type: 'text', content: '$12,400' }] },
+          { type: 'button', content: 'Details', variant: 'outline' },
+        ],
+      },
+      {
+        type: 'custom',
+        kind: 'panel',
+        content: 'Notes',
+        children: [{ type: 'text', children: [{ type: 'text', content: 'Up 4% on last month' }] }],
+      },
+    ]);
+  });
+
+  test('reports unclosed and mismatched plugin blocks', () => {
+    expect(parser.parse('[kpi Revenue\nText').diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'unclosed-block',
+        message: '"kpi" block is missing its closing ]',
+      }),
+    ]);
+
+    const { diagnostics } = parser.parse('[-- Card\n[kpi Revenue\nText\n--]');
+    expect(diagnostics.map((diagnostic) => diagnostic.message)).toEqual([
+      '"kpi" block is missing its closing ]',
+      'Found --] while the "kpi" block opened on line 2 is still open',
+    ]);
+  });
+
+  test('parses plugin inline syntax in text, headers and card titles', () => {
+    const { nodes } = parser.parse(`# Plan {{pill Pro}}
+Status: {{pill Active}} and *bold* {{not a pill}}
+[-- {{pill New}} offers
+--]`);
+
+    expect(nodes[0].children).toEqual([
+      { type: 'text', content: 'Plan ' },
+      { type: 'custom', kind: 'pill', content: 'Pro' },
+    ]);
+    expect(nodes[1].children).toEqual([
+      { type: 'text', content: 'Status: ' },
+      { type: 'custom', kind: 'pill', content: 'Active' },
+      { type: 'text', content: ' and ' },
+      { type: 'bold', content: 'bold' },
+      { type: 'text', content: ' {{not a pill}}' },
+    ]);
+    expect(nodes[2].titleChildren?.[0]).toEqual({ type: 'custom', kind: 'pill', content: 'New' });
+  });
+
+  test('records source positions of plugin nodes', () => {
+    const { nodes } = new MarkdownParser({ plugins: [widgets], positions: true }).parse(
+      '[kpi Big *win*\n  Hi {{pill A}}\n]'
+    );
+
+    expect(nodes[0].position).toEqual({ start: { line: 1, column: 1 }, end: { line: 3, column: 2 } });
+    const [title, text] = nodes[0].children || [];
+    expect(title.children?.[1].position).toEqual({
+      start: { line: 1, column: 10 },
+      end: { line: 1, column: 15 },
+    });
+    expect(text.children?.[1].position).toEqual({
+      start: { line: 2, column: 6 },
+      end: { line: 2, column: 16 },
+    });
+  });
+
+  test('prints custom nodes with the print functions of plugin rules', () => {
+    const printable: ParserPlugin = {
+      name: 'printable',
+      lines: [
+        {
+          pattern: /^@status\s+(\w+)$/,
+          parse: (match) => builders.custom('status-pill', { content: match[1] }),
+          print: (node) => (node.kind === 'status-pill' ? `@status ${node.content}` : undefined),
+        },
+      ],
+      blocks: [
+        {
+          name: 'panel',
+          opener: /^\[==\s*(.*)$/,
+          closer: '--]',
+          parse: (match, children) => ({ type: 'custom', kind: 'panel', content: match[1], children }),
+          print: (node) => (node.kind === 'panel' ? `[== ${node.content}` : undefined),
+        },
+      ],
+      inlines: [
+        {
+          marker: '{{',
+          pattern: /\{\{pill (.+?)\}\}/,
+          parse: (match) => builders.custom('pill', { content: match[1] }),
+          print: (node) => (node.kind === 'pill' ? `{{pill ${node.content}}}` : undefined),
+        },
+      ],
+    };
+    const source = `@status Active {#status}
+[== Notes {.p-4}
+  Up {{pill 4%}} on *last* month
+--]
+`;
+    const pluginParser = new MarkdownParser({ plugins: [printable] });
+    const nodes = pluginParser.parse(source).nodes;
+    const printed = new MarkdownPrinter({ plugins: [printable] }).print(nodes);
+
+    expect(printed).toBe(source);
+    expect(pluginParser.parse(printed).nodes).toEqual(nodes);
+  });
+
+  test('formats plugin syntax without rewriting it', () => {
+    const formatter = new MarkdownFormatter({ plugins: [widgets] });
+    const source = `[-- Sales
+[kpi Revenue {.w-1/2}
+@status   Active
+Up {{pill A}}
+]
+[==   Notes
+Text
+--]
+--]`;
+
+    expect(formatter.format(source)).toBe(`[-- Sales
+  [kpi Revenue {.w-1/2}
+    @status   Active
+    Up {{pill A}}
+  ]
+  [==   Notes
+    Text
+  --]
+--]
+`);
+  });
+
+  test('leaves the built-in syntax unchanged without plugins', () => {
+    const source = '@status Active\n[kpi Revenue\nText\n]';
+    expect(new MarkdownParser().parse(source).nodes.map((node) => node.type)).toEqual(['text', 'div']);
+  });
+});
@@ -0,0 +1,336 @@
+import { MarkdownParser } from './MarkdownParser';
+import { MarkdownPrinter } from './MarkdownPrinter';
+import { MarkdownNode } from './types';
+
+describe('MarkdownPrinter', () => {
+  let parser: MarkdownParser;
+  let printer: MarkdownPrinter;
+
+  beforeEach(() => {
+    parser = new MarkdownParser();
+    printer = new MarkdownPrinter();
+  });
+
+  // parse(print(ast)) must give back the same AST
+  function expectRoundTrip(source: string): MarkdownNode[] {
+    const nodes = parser.parse(source).nodes;
+    const printed = printer.print(nodes);
+    expect(parser.parse(printed).nodes).toEqual(nodes);
+    return nodes;
+  }
+
+  test('prints headers and text with inline emphasis', () => {
+    const nodes = parser.parse('## Hello *bold* and _italic_\nSome _*strong*_ text').nodes;
+    expect(printer.print(nodes)).toBe('## Hello *bold* and _italic_\nSome _*strong*_ text\n');
+  });
+
+  test('prints form fields with their markers', () => {
+    const source = [
+      'Email ___',
+      'Password __*',
+      'Bio |___|',
+      'Remember me __[]',
+      'Subscribed __[x]',
+      'Plan __() [Free, Pro]',
+      'Country __> [USA, Canada]',
+      'Anything __>',
+      'First ___ Last ___',
+    ].join('\n');
+    expect(printer.print(parser.parse(source).nodes)).toBe(`${source}\n`);
+  });
+
+  test('prints field annotations in canonical order', () => {
+    const nodes = parser.parse(
+      'Age ___ {help="Be honest" max=120 .w-20 required number min=18 #age}'
+    ).nodes;
+    expect(printer.print(nodes)).toBe(
+      'Age ___ {number required min=18 max=120 help="Be honest" #age .w-20}\n'
+    );
+  });
+
+  test('prints buttons with variants, classes and navigation', () => {
+    const source = [
+      '[(Save)]',
+      '[Cancel]',
+      '[(Submit) | w-full]',
+      '[(Next) -> step2]',
+      '[Back -> step1] {.text-sm}',
+      '[(Save)][Reset]',
+    ].join('\n');
+    expect(printer.print(parser.parse(source).nodes)).toBe(`${source}\n`);
+  });
+
+  test('indents block content and ends tables with a blank line', () => {
+    const nodes = parser.parse(`[-- Cart
+| Item | Qty |
+|------|-----|
+| Pen | 2 |
+
+[(Checkout) | w-full]
+--]`).nodes;
+    expect(printer.print(nodes)).toBe(`[-- Cart
+  | Item | Qty |
+  |------|-----|
+  | Pen | 2 |
+
+  [(Checkout) | w-full]
+--]
+`);
+  });
+
+  test('prints workflows with start only when it is not the first screen', () => {
+    const source = `[workflow start=done name="Sign Up"
+[screen form
+[(Next) -> done]
+]
+[screen done
+[Back -> form]
+]
+]`;
+    expect(printer.print(parser.parse(source).nodes)).toBe(`[workflow start=done name="Sign Up"
+  [screen form
+    [(Next) -> done]
+  ]
+  [screen done
+    [Back -> form]
+  ]
+]
+`);
+    expect(printer.print(parser.parse(source.replace('start=done ', '')).nodes)).toContain(
+      '[workflow name="Sign Up"\n'
+    );
+  });
+
+  test('uses the indent size option', () => {
+    const nodes = parser.parse('[ flex gap-2\nHello\n]').nodes;
+    expect(new MarkdownPrinter({ indentSize: 4 }).print(nodes)).toBe('[ flex gap-2\n    Hello\n]\n');
+  });
+
+  test('round-trips headers, text and images', () => {
+    expectRoundTrip(`# Welcome
+### Sub *heading*
+Plain text with *bold*, _italic_ and _*both*_
+A lone * star and snake_case
+![Logo](https://example.com/logo.png)`);
+  });
+
+  test('round-trips nested emphasis', () => {
+    expectRoundTrip(`*bold with _italic_ inside* and _outer *inner _deep_ inner* outer_
+_*one*_ and a*_two_*b, snake_case_names and *a _b* c_
+~~old _price_~~ and [the *docs*](/docs)
+*a \\* _b\\_c_ d*`);
+    expect(printer.print(parser.parse('a*_b_*c and snake_case').nodes)).toBe('a*_b_*c and snake_case\n');
+  });
+
+  test('round-trips links, code, strikethrough and escapes', () => {
+    expectRoundTrip(`See [the *docs*](https://example.com/docs) or \`run --fast\`
+~~Old~~ price, ~~~ not struck ~~~ and \\~\\~kept\\~\\~ ~~ alone
+\\*literal\\* and *a \\* b* plus _x\\_y_ and \\[x](y) \\\\*
+I accept the [Terms](/terms) __[x]
+Plain \\*stars\\* __[]`);
+    expect(printer.print(parser.parse('A lone * star, snake_case and a [note]').nodes)).toBe(
+      'A lone * star, snake_case and a [note]\n'
+    );
+  });
+
+  test('round-trips escaped line syntax', () => {
+    expectRoundTrip(`Total: \\___
+\\[not a button]
+\\[ not a div
+\\# Count ___
+\\![a](b)
+\\--]
+Price \\* ___ Notes \\|___| |___| Path C:\\\\ ___
+Size __> [Small, Medium\\, Large, X\\]L]
+[Save \\] now -> next\\]step]
+[\\(Outline) | w-full]
+[(Go \\-> on)]
+![a\\]b](logo\\).png)
+| Op | Means |
+|----|-------|
+| a \\| b | either |`);
+  });
+
+  test('round-trips form fields and annotations', () => {
+    expectRoundTrip(`Email ___ {email required placeholder="you@example.com" help="We never share it"}
+Name ___ {value="Jane Doe" minlength=2 maxlength=40}
+Zip ___ {pattern="\\d{5}"}
+Born ___ {date min=1900-01-01 max=2020-12-31}
+Password __* {required}
+Bio |___| {placeholder="About you"}
+Country __> [USA, Canada] {value=canada placeholder="Pick one"}
+Plan __() [Free, Pro] {value=Pro help="Change any time"}
+Remember me __[x] {help="On this device"}
+Empty __()
+Pick __>
+First ___ {#first} Last ___ {required}
+A ___ B __[x] C __> [x, y]`);
+  });
+
+  test('round-trips quotes and backslashes in quoted values', () => {
+    const source = 'Path ___ {placeholder="C:\\\\" help="Say \\"hi\\"" value=a\\b}';
+    const [field] = expectRoundTrip(source);
+    expect(field.placeholder).toBe('C:\\');
+    expect(field.helpText).toBe('Say "hi"');
+    expect(field.defaultValue).toBe('a\\b');
+    expect(printer.print([field])).toBe('Path ___ {placeholder="C:\\\\" value="a\\\\b" help="Say \\"hi\\""}\n');
+  });
+
+  test('round-trips buttons', () => {
+    expectRoundTrip(`[(Save)]
+[Cancel]
+[( Padded )]
+[(Submit) | w-full mt-2]
+[Link | text-sm]
+[(Next) -> step2]
+[Back -> step1]
+[(Save)] [Reset] [Help -> help]
+[(Go) -> home] {#go .w-full}`);
+  });
+
+  test('round-trips nested blocks and tables', () => {
+    expectRoundTrip(`[-- *Profile* settings {#profile .shadow}
+  # Details
+  [grid cols-2 gap-4 {.mt-4}
+    [-- Left
+      Text
+    --]
+    [--
+      Name ___
+    --]
+    [ flex gap-2 {data-testid=row}
+      [(Save)][Cancel]
+    ]
+  ]
+  | Name | Age |
+  |------|-----|
+  | John | 30 |
+  | Jane | 25 |
+
+  [Done | w-full]
+--]
+[ grid-flow-col
+  Text
+]
+[
+  Bare div
+]
+| A | B |
+|---|---|
+| 1 | 2 |
+Text after the table`);
+  });
+
+  test('round-trips lists', () => {
+    expectRoundTrip(`- One *bold* item
+- Two
+  1. Nested
+  2. Numbered
+    - Deeper
+3. Starts at three
+4. Four
+- A list right after another
+- With attributes {#item .mt-2 data-done=true}
+[-- Tasks
+  - In a card
+--]
+\\- not an item
+1\\. not an item`);
+    expect(printer.print(parser.parse('- a\n  - b\n- c\n\n- d').nodes)).toBe('- a\n  - b\n- c\n\n- d\n');
+  });
+
+  test('round-trips workflows and screens', () => {
+    expectRoundTrip(`[workflow start=details name="Customer Onboarding" {.border data-flow=onboarding}
+[screen welcome
+  # Welcome
+  [(Start) -> details]
+]
+[screen details {.p-4}
+  [-- Details
+    Email ___ {email}
+    [(Next) -> welcome]
+  --]
+]
+]
+[workflow
+[screen only
+Nothing here
+]
+]`);
+  });
+
+  test('round-trips tabs', () => {
+    expectRoundTrip(`[tabs {#settings .w-full}
+  [tab Account
+    Name ___
+  ]
+  [tab Billing \\] plans \\{#not-an-id} {.p-4}
+    [tabs
+      [tab Nested
+        Text
+      ]
+    ]
+  ]
+]
+[-- Card
+  [tab Outside tabs
+  ]
+--]`);
+  });
+
+  test('escapes trailing braces that would read as an attribute block', () => {
+    const source = `a \\{b=c}
+A \\{#id}
+# Head \\{#x}
+[-- T \\{.a}
+--]
+Name ___ \\{x=1}
+Use {curly} braces {#kept}
+- item \\{#i}`;
+    const nodes = expectRoundTrip(source);
+    expect(printer.print(nodes)).toBe(`${source.replace('Name ___', 'Name \\_\\__')}\n`);
+  });
+
+  test('round-trips typed attributes', () => {
+    const nodes = expectRoundTrip(
+      '# Title {#top data-count=3 data-on=true data-label="two words" data-code="007" data-flag="false"}'
+    );
+    expect(nodes[0].attributes).toEqual({
+      'data-count': 3,
+      'data-on': true,
+      'data-label': 'two words',
+      'data-code': '007',
+      'data-flag': 'false',
+    });
+  });
+
+  test('round-trips the README examples', () => {
+    expectRoundTrip(`[-- Login
+  # Welcome Back
+  Email ___
+  Password __*
+  Remember me __[]
+  [(Sign In)][Forgot Password?]
+--]`);
+    expectRoundTrip(`[workflow
+[screen personal
+  [-- Personal Information
+    First Name ___
+    Last Name ___
+    [(Next) -> contact]
+  --]
+]
+[screen contact
+  [-- Contact Details
+    Email ___
+    Phone ___
+    [Back -> personal][(Submit) -> success]
+  --]
+]
+[screen success
+  # Thank you!
+  [(Start Over) -> personal]
+]
+]`);
+  });
+});
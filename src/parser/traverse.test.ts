@@ -0,0 +1,184 @@
+import { MarkdownParser } from './MarkdownParser';
+import { transform, visit } from './traverse';
+import { MarkdownNode } from './types';
+
+describe('visit and transform', () => {
+  let parser: MarkdownParser;
+
+  beforeEach(() => {
+    parser = new MarkdownParser();
+  });
+
+  const source = `[-- *Login*
+Email ___
+[(Sign In)][Cancel]
+--]
+# Done`;
+
+  test('visits nodes depth-first with enter and leave hooks', () => {
+    const events: string[] = [];
+    visit(parser.parse(source).nodes, {
+      enter: (node) => {
+        events.push(`enter ${node.type}`);
+      },
+      leave: (node) => {
+        events.push(`leave ${node.type}`);
+      },
+    });
+
+    expect(events).toEqual([
+      'enter card',
+      'enter bold',
+      'leave bold',
+      'enter input',
+      'leave input',
+      'enter container',
+      'enter button',
+      'leave button',
+      'enter button',
+      'leave button',
+      'leave container',
+      'leave card',
+      'enter header',
+      'enter text',
+      'leave text',
+      'leave header',
+    ]);
+  });
+
+  test('calls per-type callbacks and hooks around the generic ones', () => {
+    const events: string[] = [];
+    visit(parser.parse(source).nodes, {
+      enter: (node) => {
+        if (node.type === 'card') {
+          events.push('enter');
+        }
+      },
+      leave: (node) => {
+        if (node.type === 'card') {
+          events.push('leave');
+        }
+      },
+      card: {
+        enter: () => {
+          events.push('card enter');
+        },
+        leave: () => {
+          events.push('card leave');
+        },
+      },
+      button: (node) => {
+        events.push(`button ${node.content}`);
+      },
+    });
+
+    expect(events).toEqual([
+      'enter',
+      'card enter',
+      'button Sign In',
+      'button Cancel',
+      'card leave',
+      'leave',
+    ]);
+  });
+
+  test('passes parent, key, index and ancestors', () => {
+    const nodes = parser.parse(source).nodes;
+    const paths: Record<
+      string,
+      { parent: string | undefined; key: string | null; index: number; ancestors: string[] }
+    > = {};
+    visit(nodes, {
+      enter: (node, path) => {
+        paths[node.content ?? node.label ?? node.type] = {
+          parent: path.parent?.type,
+          key: path.key,
+          index: path.index,
+          ancestors: path.ancestors.map((ancestor) => ancestor.type),
+        };
+      },
+    });
+
+    expect(paths['card']).toEqual({ parent: undefined, key: null, index: 0, ancestors: [] });
+    expect(paths['Login']).toEqual({ parent: 'card', key: 'titleChildren', index: 0, ancestors: ['card'] });
+    expect(paths['Email']).toEqual({ parent: 'card', key: 'children', index: 0, ancestors: ['card'] });
+    expect(paths['Cancel']).toEqual({
+      parent: 'container',
+      key: 'children',
+      index: 1,
+      ancestors: ['card', 'container'],
+    });
+    expect(paths['header']).toEqual({ parent: undefined, key: null, index: 1, ancestors: [] });
+  });
+
+  test('skips descendants and stops traversal', () => {
+    const skipped: string[] = [];
+    visit(parser.parse(source).nodes, {
+      enter: (node) => {
+        skipped.push(node.type);
+        return node.type === 'card' ? 'skip' : undefined;
+      },
+    });
+    expect(skipped).toEqual(['card', 'header', 'text']);
+
+    const stopped: string[] = [];
+    visit(parser.parse(source).nodes, {
+      input: () => 'stop',
+      enter: (node) => {
+        stopped.push(node.type);
+      },
+      leave: (node) => {
+        stopped.push(`/${node.type}`);
+      },
+    });
+    expect(stopped).toEqual(['card', 'bold', '/bold', 'input']);
+  });
+
+  test('replaces, removes and inserts nodes', () => {
+    const nodes = transform(parser.parse(source).nodes, {
+      input: (node) => ({ ...node, label: 'Work email' }),
+      button: (node) => (node.variant === 'outline' ? null : undefined),
+      header: (node) => [node, { type: 'text', content: 'Thanks!' }],
+    });
+
+    const card = nodes[0];
+    expect(card.children?.[0].label).toBe('Work email');
+    expect(card.children?.[1].children).toEqual([
+      { type: 'button', content: 'Sign In', variant: 'default' },
+    ]);
+    expect(nodes.map((node) => node.type)).toEqual(['card', 'header', 'text']);
+    expect(nodes[2]).toEqual({ type: 'text', content: 'Thanks!' });
+  });
+
+  test('transforms the descendants of replacements and applies leave results', () => {
+    const nodes = transform(parser.parse(source).nodes, {
+      // Unwrap the card, keeping its content
+      card: {
+        enter: (node) => ({ type: 'div', className: 'unwrapped', children: node.children }),
+      },
+      container: { leave: (node) => node.children },
+      button: (node) => ({ ...node, content: node.content?.toUpperCase() }),
+    });
+
+    expect(nodes[0].type).toBe('div');
+    expect(nodes[0].children?.map((node) => node.content ?? node.label)).toEqual([
+      'Email',
+      'SIGN IN',
+      'CANCEL',
+    ]);
+  });
+
+  test('does not modify the input AST', () => {
+    const nodes = parser.parse(source).nodes;
+    const snapshot: MarkdownNode[] = JSON.parse(JSON.stringify(nodes));
+
+    const result = transform(nodes, {
+      button: () => null,
+      text: (node) => ({ ...node, content: 'changed' }),
+    });
+
+    expect(nodes).toEqual(snapshot);
+    expect(result).not.toBe(nodes);
+    expect(result[0]).not.toBe(nodes[0]);
+  });
+});
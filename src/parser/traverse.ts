@@ -0,0 +1,154 @@
+import {
+  MarkdownNode,
+  NodePath,
+  NodeType,
+  TransformCallback,
+  TransformVisitor,
+  VisitCallback,
+  Visitor,
+  VisitorHooks,
+} from "./types";
+
+/**
+ * Properties holding child nodes, in document order
+ */
+const CHILD_KEYS = ["titleChildren", "labelChildren", "children"] as const;
+
+type ChildKey = (typeof CHILD_KEYS)[number];
+
+/**
+ * Walk an AST depth-first, calling the visitor's enter hooks before a node's
+ * descendants and its leave hooks after them. The generic enter hook runs
+ * before the node type's hook, and the generic leave hook after it.
+ */
+export function visit(nodes: MarkdownNode[], visitor: Visitor): void {
+  visitNodes(nodes, visitor, null, null, []);
+}
+
+/**
+ * Build a new AST by passing every node through the visitor's hooks, which
+ * may replace, remove or insert nodes. Enter hooks run before the
+ * descendants of a node (and of its replacements) are transformed, leave
+ * hooks after. The input AST is not modified; every node in the result is
+ * a shallow copy.
+ */
+export function transform(nodes: MarkdownNode[], visitor: TransformVisitor): MarkdownNode[] {
+  return transformNodes(nodes, visitor, null, null, []);
+}
+
+/**
+ * Visit a list of nodes; false once the traversal was stopped
+ */
+function visitNodes(
+  nodes: MarkdownNode[],
+  visitor: Visitor,
+  parent: MarkdownNode | null,
+  key: ChildKey | null,
+  ancestors: MarkdownNode[]
+): boolean {
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index];
+    const path: NodePath = { node, parent, key, index, ancestors };
+    const hooks = typeHooks<VisitCallback>(visitor, node.type);
+
+    let skip = false;
+    for (const callback of [visitor.enter, hooks.enter]) {
+      const action = callback?.(node, path);
+      if (action === "stop") {
+        return false;
+      }
+      skip = skip || action === "skip";
+    }
+
+    if (!skip) {
+      for (const childKey of CHILD_KEYS) {
+        const children = node[childKey];
+        if (children && !visitNodes(children, visitor, node, childKey, [...ancestors, node])) {
+          return false;
+        }
+      }
+    }
+
+    for (const callback of [hooks.leave, visitor.leave]) {
+      if (callback?.(node, path) === "stop") {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+function transformNodes(
+  nodes: MarkdownNode[],
+  visitor: TransformVisitor,
+  parent: MarkdownNode | null,
+  key: ChildKey | null,
+  ancestors: MarkdownNode[]
+): MarkdownNode[] {
+  return nodes.flatMap((node, index) => {
+    const path: NodePath = { node, parent, key, index, ancestors };
+
+    const entered = applyHooks([node], visitor, "enter", path).map((enteredNode) => {
+      const copy: MarkdownNode = { ...enteredNode };
+      for (const childKey of CHILD_KEYS) {
+        const children = enteredNode[childKey];
+        if (children) {
+          copy[childKey] = transformNodes(children, visitor, enteredNode, childKey, [
+            ...ancestors,
+            enteredNode,
+          ]);
+        }
+      }
+      return copy;
+    });
+
+    return applyHooks(entered, visitor, "leave", path);
+  });
+}
+
+/**
+ * Pass nodes through the generic and type-specific hooks of one phase,
+ * collecting what the hooks return in their place
+ */
+function applyHooks(
+  nodes: MarkdownNode[],
+  visitor: TransformVisitor,
+  phase: "enter" | "leave",
+  path: NodePath
+): MarkdownNode[] {
+  const callbacks: Array<(node: MarkdownNode) => TransformCallback | undefined> = [
+    () => visitor[phase],
+    (node) => typeHooks<TransformCallback>(visitor, node.type)[phase],
+  ];
+  if (phase === "leave") {
+    callbacks.reverse();
+  }
+
+  return callbacks.reduce(
+    (current, callbackFor) =>
+      current.flatMap((node) => {
+        const result = callbackFor(node)?.(node, { ...path, node });
+        if (result === undefined) {
+          return [node];
+        }
+        return result === null ? [] : result;
+      }),
+    nodes
+  );
+}
+
+/**
+ * The enter/leave hooks a visitor has for a node type
+ */
+function typeHooks<Callback>(
+  visitor: Visitor | TransformVisitor,
+  type: NodeType
+): VisitorHooks<Callback> {
+  // Per-type callbacks take the typed node, which every node of the type is
+  const hooks = visitor[type] as Callback | VisitorHooks<Callback> | undefined;
+  if (typeof hooks === "function") {
+    return { enter: hooks };
+  }
+  return hooks ?? {};
+}
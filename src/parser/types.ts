@@ -8,45 +8,505 @@ export type NodeType =
   | 'container'
   | 'card'
   | 'table'
+  | 'list'
+  | 'listItem'
   | 'checkbox'
   | 'radiogroup'
   | 'grid'
   | 'div'
+  | 'tabs'
+  | 'tab'
   | 'bold'
   | 'italic'
+  | 'strikethrough'
+  | 'code'
+  | 'link'
   | 'image'
   | 'workflow'
-  | 'screen';
+  | 'screen'
+  | 'custom';
 
+/**
+ * A node of any type with all fields optional, as returned by the parser and
+ * accepted by the printer, formatter and generators. ProtoNode types the
+ * same nodes by their `type`.
+ */
 export interface MarkdownNode {
   type: NodeType;
-  id?: string; // for elements, screens
-  content?: string; // for text, buttons, headers, bold, italic
+  id?: string; // for screens, and any element given an #id attribute
+  content?: string; // for text, buttons, headers, bold, italic, strikethrough, inline code and links
   level?: number; // for headers
-  label?: string; // for inputs/dropdowns/textarea
+  label?: string; // for inputs/dropdowns/textarea and tabs (plain text)
+  labelChildren?: MarkdownNode[]; // for checkboxes whose label has inline formatting or links
   options?: string[]; // for dropdowns
-  inputType?: 'text' | 'password'; // for inputs
+  inputType?: InputType; // for inputs
+  validation?: FieldValidation; // for inputs, textareas, dropdowns, checkboxes and radio groups
+  placeholder?: string; // for inputs, textareas and dropdowns
+  defaultValue?: string; // for inputs and textareas (prefilled text), dropdowns and radio groups (selected option)
+  checked?: boolean; // for checkboxes (pre-checked)
+  helpText?: string; // for form fields (description shown under the field)
   variant?: 'default' | 'outline'; // for buttons
   navigateTo?: string; // for buttons with navigation (target screen ID)
   title?: string; // for cards (plain text, deprecated in favor of titleChildren)
   titleChildren?: MarkdownNode[]; // for cards (with inline emphasis)
   headers?: string[]; // for tables
   rows?: string[][]; // for tables
+  ordered?: boolean; // for lists (numbered rather than bulleted)
+  start?: number; // for ordered lists (the first number, when it is not 1)
   gridConfig?: string; // for grid (e.g., "cols-2 gap-4")
-  className?: string; // for div and button (custom Tailwind classes)
+  className?: string; // for div and button, and any element given .class attributes (custom Tailwind classes)
   src?: string; // for images (URL)
+  href?: string; // for links (URL)
   alt?: string; // for images (alt text)
   initialScreen?: string; // for workflow (ID of the starting screen)
-  children?: MarkdownNode[]; // for containers, cards, grids, divs, text (inline emphasis), bold, italic, workflows, screens
+  name?: string; // for workflow (display name)
+  kind?: string; // for custom nodes (the plugin-defined kind, e.g. "status-pill")
+  children?: MarkdownNode[]; // for containers, cards, grids, divs, tabs and their tab sections, text (inline emphasis), nested bold, italic, strikethrough and link text, lists (their items), list items (inline text, then nested lists), workflows, screens, custom nodes
+  attributes?: Record<string, string | number | boolean>; // key=value attributes from a {...} block
+  position?: SourceRange; // source range the node was parsed from (when ParserOptions.positions is enabled)
   metadata?: Record<string, any>;
 }
 
+/**
+ * Fields every node type accepts
+ */
+export interface BaseNode {
+  id?: string; // from an #id attribute
+  className?: string; // from .class attributes
+  attributes?: Record<string, string | number | boolean>; // key=value attributes from a {...} block
+  position?: SourceRange; // source range the node was parsed from (when ParserOptions.positions is enabled)
+  metadata?: Record<string, any>;
+}
+
+export interface TextNode extends BaseNode {
+  type: 'text';
+  content?: string; // plain text run
+  children?: InlineNode[]; // a line of text with inline emphasis
+}
+
+export interface BoldNode extends BaseNode {
+  type: 'bold';
+  content?: string; // when the content is plain text
+  children?: InlineNode[]; // nested formatting; a single italic child for _*bold italic*_
+}
+
+export interface ItalicNode extends BaseNode {
+  type: 'italic';
+  content?: string;
+  children?: InlineNode[];
+}
+
+export interface StrikethroughNode extends BaseNode {
+  type: 'strikethrough';
+  content?: string;
+  children?: InlineNode[];
+}
+
+export interface CodeNode extends BaseNode {
+  type: 'code';
+  content: string; // literal text
+}
+
+export interface LinkNode extends BaseNode {
+  type: 'link';
+  href: string;
+  content?: string; // link text, when it is plain
+  children?: InlineNode[]; // formatted link text
+}
+
+export type InlineNode = TextNode | BoldNode | ItalicNode | StrikethroughNode | CodeNode | LinkNode;
+
+export interface HeaderNode extends BaseNode {
+  type: 'header';
+  level: number;
+  children?: InlineNode[];
+  content?: string; // plain text, when there are no children
+}
+
+/**
+ * Fields shared by the form field node types
+ */
+export interface FieldNodeBase extends BaseNode {
+  label: string;
+  validation?: FieldValidation;
+  helpText?: string;
+}
+
+export interface InputNode extends FieldNodeBase {
+  type: 'input';
+  inputType: InputType;
+  placeholder?: string;
+  defaultValue?: string;
+}
+
+export interface TextareaNode extends FieldNodeBase {
+  type: 'textarea';
+  placeholder?: string;
+  defaultValue?: string;
+}
+
+export interface DropdownNode extends FieldNodeBase {
+  type: 'dropdown';
+  options?: string[];
+  placeholder?: string;
+  defaultValue?: string; // selected option
+}
+
+export interface CheckboxNode extends FieldNodeBase {
+  type: 'checkbox';
+  checked?: boolean;
+  labelChildren?: InlineNode[]; // the label with its inline formatting and links
+}
+
+export interface RadioGroupNode extends FieldNodeBase {
+  type: 'radiogroup';
+  options: string[];
+  defaultValue?: string; // selected option
+}
+
+export type FieldNode = InputNode | TextareaNode | DropdownNode | CheckboxNode | RadioGroupNode;
+
+export interface ButtonNode extends BaseNode {
+  type: 'button';
+  content: string;
+  variant: 'default' | 'outline';
+  navigateTo?: string; // target screen id
+}
+
+export interface ImageNode extends BaseNode {
+  type: 'image';
+  src: string;
+  alt: string;
+}
+
+export interface TableNode extends BaseNode {
+  type: 'table';
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ListNode extends BaseNode {
+  type: 'list';
+  ordered: boolean;
+  start?: number; // first number of an ordered list, when it is not 1
+  children: ListItemNode[];
+}
+
+export interface ListItemNode extends BaseNode {
+  type: 'listItem';
+  children: (InlineNode | ListNode)[]; // the item text, then any nested lists
+}
+
+export interface CardNode extends BaseNode {
+  type: 'card';
+  titleChildren?: InlineNode[];
+  title?: string; // plain text (deprecated in favor of titleChildren)
+  children: ProtoNode[];
+}
+
+/**
+ * Several fields or buttons on one line
+ */
+export interface ContainerNode extends BaseNode {
+  type: 'container';
+  children: ProtoNode[];
+}
+
+export interface GridNode extends BaseNode {
+  type: 'grid';
+  gridConfig: string; // e.g. "cols-2 gap-4"
+  children: ProtoNode[];
+}
+
+export interface DivNode extends BaseNode {
+  type: 'div';
+  children: ProtoNode[];
+}
+
+/**
+ * Tabbed sections, the first of them shown initially
+ */
+export interface TabsNode extends BaseNode {
+  type: 'tabs';
+  children: TabNode[];
+}
+
+export interface TabNode extends BaseNode {
+  type: 'tab';
+  label: string; // text of the tab's trigger
+  children: ProtoNode[];
+}
+
+export interface WorkflowNode extends BaseNode {
+  type: 'workflow';
+  children: ScreenNode[];
+  initialScreen?: string; // id of the starting screen
+  name?: string; // display name
+}
+
+export interface ScreenNode extends BaseNode {
+  type: 'screen';
+  id: string;
+  children: ProtoNode[];
+}
+
+/**
+ * A node produced by a parser plugin, rendered by the generator renderer
+ * registered for its kind
+ */
+export interface CustomNode extends BaseNode {
+  type: 'custom';
+  kind: string; // e.g. "status-pill"
+  content?: string;
+  children?: ProtoNode[];
+}
+
+/**
+ * A node typed by its `type`. Every ProtoNode is also a MarkdownNode, so
+ * typed nodes can be passed wherever the loose MarkdownNode is accepted.
+ */
+export type ProtoNode =
+  | HeaderNode
+  | TextNode
+  | BoldNode
+  | ItalicNode
+  | StrikethroughNode
+  | CodeNode
+  | LinkNode
+  | InputNode
+  | TextareaNode
+  | DropdownNode
+  | CheckboxNode
+  | RadioGroupNode
+  | ButtonNode
+  | ImageNode
+  | TableNode
+  | ListNode
+  | ListItemNode
+  | CardNode
+  | ContainerNode
+  | GridNode
+  | DivNode
+  | TabsNode
+  | TabNode
+  | WorkflowNode
+  | ScreenNode
+  | CustomNode;
+
+export type NodeOfType<Type extends NodeType> = Extract<ProtoNode, { type: Type }>;
+
+/**
+ * Where a node sits in the tree during visit() and transform()
+ */
+export interface NodePath {
+  node: MarkdownNode;
+  parent: MarkdownNode | null; // null for top-level nodes
+  key: 'children' | 'titleChildren' | 'labelChildren' | null; // property of the parent holding the node
+  index: number; // position in the parent's list (the original list while transforming)
+  ancestors: MarkdownNode[]; // enclosing nodes, outermost first
+}
+
+/**
+ * Returned by a visit() callback: "skip" leaves out the node's descendants,
+ * "stop" ends the traversal
+ */
+export type VisitAction = 'skip' | 'stop';
+
+export type VisitCallback<Node extends MarkdownNode = MarkdownNode> = (
+  node: Node,
+  path: NodePath
+) => VisitAction | void;
+
+/**
+ * Returned by a transform() callback: a node replaces the current one, an
+ * array replaces it with several (inserting siblings), null or [] removes
+ * it, and undefined keeps it
+ */
+export type TransformCallback<Node extends MarkdownNode = MarkdownNode> = (
+  node: Node,
+  path: NodePath
+) => MarkdownNode | MarkdownNode[] | null | void;
+
+export interface VisitorHooks<Callback> {
+  enter?: Callback; // before the node's descendants
+  leave?: Callback; // after the node's descendants
+}
+
+/**
+ * enter/leave hooks for every node, plus a callback (called on enter) or
+ * enter/leave hooks per node type, which receive the typed node
+ */
+export type Visitor = VisitorHooks<VisitCallback> & {
+  [Type in NodeType]?: VisitCallback<NodeOfType<Type>> | VisitorHooks<VisitCallback<NodeOfType<Type>>>;
+};
+
+export type TransformVisitor = VisitorHooks<TransformCallback> & {
+  [Type in NodeType]?:
+    | TransformCallback<NodeOfType<Type>>
+    | VisitorHooks<TransformCallback<NodeOfType<Type>>>;
+};
+
+export type InputType =
+  | 'text'
+  | 'password'
+  | 'email'
+  | 'number'
+  | 'tel'
+  | 'url'
+  | 'date'
+  | 'search';
+
+/**
+ * Validation rules of a form field, from its {...} annotation
+ * (Age ___ {number required min=18})
+ */
+export interface FieldValidation {
+  required?: boolean;
+  min?: number | string; // number for number inputs, ISO date for date inputs
+  max?: number | string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string; // regular expression the whole value must match
+}
+
+/**
+ * A point in the source document. Lines and columns are 1-based.
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * A span of the source document. `end` points just past the last character.
+ */
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
 export interface ParserOptions {
-  strict?: boolean;
+  strict?: boolean; // report warnings as errors
   preserveWhitespace?: boolean;
+  positions?: boolean; // record a source range on every node
+  plugins?: ParserPlugin[]; // custom line, block and inline syntax
+}
+
+/**
+ * Custom syntax for the parser. Plugin rules are tried before the built-in
+ * syntax, in plugin order, so a plugin can also take over built-in syntax.
+ */
+export interface ParserPlugin {
+  name: string;
+  lines?: LineRule[];
+  blocks?: BlockRule[];
+  inlines?: InlineRule[];
+}
+
+/**
+ * Parser helpers passed to plugin parse functions
+ */
+export interface PluginContext {
+  parseInline(text: string): MarkdownNode[]; // text with inline emphasis and plugin inline syntax
+}
+
+/**
+ * Printer helpers passed to plugin print functions
+ */
+export interface PrintContext {
+  printInline(nodes: MarkdownNode[]): string; // inline nodes as source, with syntax characters escaped
+}
+
+/**
+ * A single-line element (@status Active). The pattern is matched
+ * against the trimmed line without its trailing {...} attribute block, which
+ * applies to the returned node.
+ */
+export interface LineRule {
+  pattern: RegExp;
+  parse(match: RegExpMatchArray, context: PluginContext): MarkdownNode | null; // null leaves the line to the other rules
+  print?(node: MarkdownNode, context: PrintContext): string | undefined; // the line without its attribute block; undefined for nodes of other rules
+}
+
+/**
+ * A block opened by its own keyword ([kpi Revenue) and closed by ] like a
+ * grid or --] like a card. The opener is matched against the trimmed opening
+ * line without its {...} attribute block; the content is parsed like the
+ * content of a grid or card.
+ */
+export interface BlockRule {
+  name: string; // used in diagnostics ("kpi" block is missing its closing ])
+  opener: RegExp;
+  closer?: ']' | '--]'; // default ]
+  parse(match: RegExpMatchArray, children: MarkdownNode[], context: PluginContext): MarkdownNode;
+  print?(node: MarkdownNode, context: PrintContext): string | undefined; // the opener without its attribute block, children are printed under it; undefined for nodes of other rules
+}
+
+/**
+ * Inline syntax in text, headers and card titles ({{pill Active}}). The
+ * pattern is matched where the marker occurs in the text.
+ */
+export interface InlineRule {
+  marker: string; // text the syntax starts with, e.g. "{{"
+  pattern: RegExp;
+  parse(match: RegExpMatchArray, context: PluginContext): MarkdownNode;
+  print?(node: MarkdownNode, context: PrintContext): string | undefined; // undefined for nodes of other rules
+}
+
+export interface PrinterOptions {
+  indentSize?: number; // spaces per nesting level of block content (default 2)
+  plugins?: ParserPlugin[]; // print custom nodes with the print functions of their rules
+}
+
+export interface FormatterOptions {
+  indentSize?: number; // spaces per nesting level of block content (default 2)
+  plugins?: ParserPlugin[]; // plugin syntax to parse and print; plugin lines without a print function are kept as written
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+  | 'unclosed-card' // [-- without a matching --]
+  | 'unclosed-grid' // [grid without a matching ]
+  | 'unclosed-div' // [ without a matching ]
+  | 'unclosed-screen' // [screen without a matching ]
+  | 'unclosed-workflow' // [workflow without a matching ]
+  | 'unclosed-tabs' // [tabs without a matching ]
+  | 'unclosed-tab' // [tab without a matching ]
+  | 'unclosed-block' // plugin block without its closer
+  | 'mismatched-closer' // ] closing a card, --] closing a grid/div/screen/tabs/workflow
+  | 'stray-card-closer' // --] outside any block
+  | 'stray-block-closer' // ] outside any block
+  | 'unknown-container-keyword' // [grdi, [scren ... (likely a misspelled block keyword)
+  | 'screen-outside-workflow' // [screen used outside a [workflow block
+  | 'content-outside-screen' // workflow content that is not inside a [screen
+  | 'tab-outside-tabs' // [tab used outside a [tabs block
+  | 'content-outside-tab' // tabs content that is not inside a [tab
+  | 'unknown-workflow-attribute' // workflow header attribute other than start= or name=
+  | 'malformed-options' // dropdown/radio options missing their closing ]
+  | 'empty-options' // dropdown/radio with an empty option list
+  | 'table-column-mismatch' // table row cell count differs from the header
+  | 'unknown-field-attribute' // field annotation other than an input type, validation rule, placeholder, value or help
+  | 'invalid-field-attribute' // field annotation with a bad value or on a field it does not apply to
+  | 'invalid-attribute' // attribute that does not apply to its element (#id on a screen) or an on* event handler
+  | 'empty-workflow' // workflow without any screens
+  | 'duplicate-screen-id' // two screens in one workflow share an id
+  | 'unknown-initial-screen' // workflow initial screen does not exist
+  | 'unknown-navigation-target' // button navigates to a screen missing from its workflow
+  | 'unreachable-screen' // screen not reachable from the workflow's initial screen
+  | 'dead-end-screen' // screen without navigation to other screens
+  | 'navigation-outside-workflow' // navigation button that is not inside a workflow
+  | 'unparsed-line'; // line that could not be parsed (strict mode)
+
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  range?: SourceRange; // present whenever the source location is known
 }
 
 export interface ParseResult {
   nodes: MarkdownNode[];
-  errors?: string[];
+  diagnostics: Diagnostic[];
+  errors?: string[]; // messages of error-severity diagnostics (deprecated in favor of diagnostics)
 }